@@ -0,0 +1,961 @@
+import express, { Express, Request, Response } from 'express'
+import * as Sentry from '@sentry/node'
+import {
+  addCartLineRequestSchema,
+  cancelRequestSchema,
+  CheckoutResponse,
+  checkoutRequestSchema,
+  CurrencyInfo,
+  OrderStatusEvent,
+  Product as ProductListing,
+  promotionRequestSchema,
+  providerConfigSchema,
+  Quote as QuoteResponse,
+  quoteRequestSchema,
+  refundRequestSchema,
+  setCartLineRequestSchema,
+  Validator,
+} from '../../contract/src'
+import { cartItemCount, CartMutation, mutateCart, newCart, withCartLock } from './carts'
+import { CURRENCIES, Currency, isCurrency, priceIn } from './currency'
+import {
+  AppliedPromotion,
+  applyPromotion,
+  claimPromotion,
+  PromotionError,
+  releasePromotion,
+  resetPromotionUsage,
+} from './promotions'
+import {
+  buildQuote,
+  clearQuotes,
+  DEFAULT_REGION,
+  getQuote,
+  Region,
+  saveQuote,
+  ShippingMethod,
+} from './pricing'
+import { getChaosState, loadChaosScenario, startChaosScenario, stopChaosScenario } from './chaos'
+import {
+  ApiError,
+  ErrorCode,
+  errorHandler,
+  EVENT_ID_HEADER,
+  invalidField,
+  parseRequest,
+  sendError,
+  sendUnexpectedError,
+} from './errors'
+import { idempotency } from './idempotency'
+import { logger, requestLogger } from './logger'
+import { getSeedStock } from './catalog'
+import { createInventory, OutOfStockError, Reservation } from './inventory'
+import {
+  chargeWithFailover,
+  getAllProviderConfigs,
+  getProviderConfig,
+  PaymentProviderError,
+  pickPaymentProvider,
+  resetProviderConfig,
+  setProviderConfig,
+} from './payments'
+import { getFulfillmentDelays, startFulfillmentSimulator } from './fulfillment'
+import { publishingOrders, subscribeToOrder } from './orderEvents'
+import { createOrderLifecycle, transitionOrder, withOrderLock } from './orders'
+import { cancelOrder, OrderActionError, refundOrder, RefundOutcome } from './refunds'
+import { liveSimulation, randomId, Simulation } from './simulation'
+import { createStore, Store } from './store'
+import {
+  createWebhookDeduper,
+  requestAsyncCharge,
+  SIGNATURE_HEADER,
+  verifyWebhookSignature,
+  WebhookEvent,
+} from './webhooks'
+import {
+  Order,
+  ORDER_SORT_FIELDS,
+  ORDER_STATUSES,
+  OrderLine,
+  OrderQuery,
+  PAYMENT_PROVIDERS,
+} from './types'
+
+type PricedCart = { cartId?: string; currency: Currency; lines: OrderLine[]; subtotalMinor: number }
+
+// Like parseRequest, but malformed cart lines are ITEM_INVALID, the same as lines for unknown products
+function parseCartRequest<T>(schema: Validator<T>, body: unknown): T | ApiError {
+  const parsed = parseRequest(schema, body)
+  if (parsed instanceof ApiError && parsed.details?.every((d) => d.field.startsWith('items'))) {
+    return new ApiError('ITEM_INVALID', 'Invalid cart item', parsed.details)
+  }
+  return parsed
+}
+
+// Prices `{ cartId | items, currency }` from an already validated request body from the catalog.
+// Returns an ApiError for anything the shopper needs to fix.
+async function priceCart(store: Store, request: {
+  cartId?: string
+  items?: { productId: string; quantity: number }[]
+  currency?: string
+}): Promise<PricedCart | ApiError> {
+  // Older clients don't send a currency; they always priced in USD
+  const { cartId, currency = 'USD' } = request
+  if (!isCurrency(currency)) return invalidField('currency', `Unsupported currency: ${currency}`)
+  let items = request.items ?? []
+  // A server-side cart wins over inline items
+  if (cartId !== undefined) {
+    const stored = await store.getCart(cartId)
+    if (!stored) return new ApiError('CART_NOT_FOUND', 'Unknown cart', [{ field: 'cartId', message: 'Unknown cart' }])
+    if (stored.status === 'checked_out') return new ApiError('CART_CHECKED_OUT', 'Cart has already been checked out')
+    items = stored.lines
+  }
+  if (items.length === 0) return new ApiError('CART_EMPTY', 'Cart is empty')
+
+  const lines: OrderLine[] = []
+  for (const [i, line] of items.entries()) {
+    const product = await store.getProduct(line.productId)
+    if (!product) {
+      const message = `Unknown product: ${line.productId}`
+      return new ApiError('ITEM_INVALID', 'Invalid cart item', [{ field: `items[${i}].productId`, message }])
+    }
+    const unitPriceMinor = priceIn(product, currency)
+    lines.push({
+      productId: product.id,
+      quantity: line.quantity,
+      product: { id: product.id, name: product.name, description: product.description },
+      unitPriceMinor,
+      lineTotalMinor: unitPriceMinor * line.quantity,
+    })
+  }
+  return { cartId, currency, lines, subtotalMinor: lines.reduce((sum, l) => sum + l.lineTotalMinor, 0) }
+}
+
+// Region and shipping method from a validated request, defaulting from the currency
+function deliveryFor(
+  request: { region?: Region; shippingMethod?: ShippingMethod },
+  currency: Currency
+): { region: Region; shippingMethod: ShippingMethod } {
+  return { region: request.region ?? DEFAULT_REGION[currency], shippingMethod: request.shippingMethod ?? 'standard' }
+}
+
+function firstQueryValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) return firstQueryValue(value[0])
+  return typeof value === 'string' && value !== '' ? value : undefined
+}
+
+// Parses `GET /api/orders` query params; returns an ApiError for anything malformed
+function parseOrderQuery(query: Request['query']): OrderQuery | ApiError {
+  const page = Number(firstQueryValue(query.page) ?? 1)
+  if (!Number.isInteger(page) || page < 1) return invalidField('page', 'page must be a positive integer')
+
+  const pageSize = Number(firstQueryValue(query.pageSize) ?? 20)
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 100) {
+    return invalidField('pageSize', 'pageSize must be between 1 and 100')
+  }
+
+  const providerRaw = firstQueryValue(query.provider)
+  const provider = PAYMENT_PROVIDERS.find((p) => p === providerRaw)
+  if (providerRaw && !provider) {
+    return invalidField('provider', `provider must be one of ${PAYMENT_PROVIDERS.join(', ')}`)
+  }
+
+  const statusRaw = firstQueryValue(query.status)
+  const status = ORDER_STATUSES.find((s) => s === statusRaw)
+  if (statusRaw && !status) return invalidField('status', `status must be one of ${ORDER_STATUSES.join(', ')}`)
+
+  const dates: { from?: Date; to?: Date } = {}
+  for (const key of ['from', 'to'] as const) {
+    const raw = firstQueryValue(query[key])
+    if (!raw) continue
+    const date = new Date(raw)
+    if (Number.isNaN(date.getTime())) return invalidField(key, `${key} must be an ISO 8601 date`)
+    dates[key] = date
+  }
+
+  // `sort=totalMinor` sorts ascending, `sort=-totalMinor` descending
+  const sortRaw = firstQueryValue(query.sort) ?? '-createdAt'
+  const sortDir = sortRaw.startsWith('-') ? 'desc' : 'asc'
+  const sortField = ORDER_SORT_FIELDS.find((f) => f === sortRaw.replace(/^-/, ''))
+  if (!sortField) {
+    return invalidField('sort', `sort must be one of ${ORDER_SORT_FIELDS.join(', ')} (prefix with - for descending)`)
+  }
+
+  return { page, pageSize, provider, status, ...dates, sortField, sortDir }
+}
+
+function isWebhookEvent(body: unknown): body is WebhookEvent {
+  const event = body as WebhookEvent
+  return (
+    typeof event?.id === 'string' &&
+    (event.type === 'charge.succeeded' || event.type === 'charge.failed') &&
+    typeof event.orderId === 'string'
+  )
+}
+
+// Keeps idle SSE connections from being closed by proxies
+const SSE_HEARTBEAT_MS = 15_000
+
+// 409 for orders in the wrong state, 400 for amounts, 502 when the provider declines the refund
+const ORDER_ACTION_ERRORS: Record<OrderActionError['reason'], ErrorCode> = {
+  not_paid: 'ORDER_NOT_PAID',
+  not_refundable: 'ORDER_NOT_REFUNDABLE',
+  not_cancellable: 'ORDER_NOT_CANCELLABLE',
+  exceeds_refundable: 'REFUND_EXCEEDS_BALANCE',
+}
+
+function sendRefundOutcome(res: Response, outcome: RefundOutcome | undefined) {
+  if (!outcome) {
+    sendError(res, new ApiError('ORDER_NOT_FOUND', 'Order not found'))
+    return
+  }
+  const { order, refund } = outcome
+  if (refund?.status === 'failed') {
+    sendError(res, new ApiError('REFUND_DECLINED', `Refund declined by ${refund.provider}; try again`), { order, refund })
+    return
+  }
+  res.json({ order, refund: refund ?? null })
+}
+
+function sendOrderActionError(res: Response, err: unknown) {
+  if (err instanceof OrderActionError) {
+    const details = err.reason === 'exceeds_refundable' ? [{ field: 'amountMinor', message: err.message }] : undefined
+    sendError(res, new ApiError(ORDER_ACTION_ERRORS[err.reason], err.message, details))
+    return
+  }
+  sendUnexpectedError(res, err)
+}
+
+export type AppOptions = {
+  // Defaults to the STORE_DRIVER store
+  store?: Store
+  // Randomness and time for ids, payments and timestamps; live unless given (see simulation.ts)
+  simulation?: Simulation
+  // Moves paid orders along in the background; defaults to on unless FULFILLMENT_SIMULATOR=off
+  fulfillment?: boolean
+}
+
+/*
+  Builds the Express app with all routes, without listening, so it can also be created in tests.
+  Provider overrides, quotes, promo redemptions and the chaos scenario are module state and are
+  shared by every app in the process. Each new app starts them afresh, so only the latest app in a
+  process should be serving.
+*/
+export function createApp(options: AppOptions = {}): Express {
+  const app = express()
+
+  app.use(requestLogger())
+
+  // Enable CORS for frontend
+  app.use((req, res, next) => {
+    const origin = req.headers.origin || 'http://localhost:5173'
+    res.header('Access-Control-Allow-Origin', origin)
+    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS')
+    res.header(
+      'Access-Control-Allow-Headers',
+      'Content-Type, sentry-trace, baggage, Idempotency-Key, Last-Event-ID, X-Request-Id'
+    )
+    res.header('Access-Control-Expose-Headers', `Idempotent-Replayed, ${EVENT_ID_HEADER}, X-Request-Id`)
+    if (req.method === 'OPTIONS') {
+      return res.sendStatus(200)
+    }
+    next()
+  })
+
+  // Keeps the raw bytes next to the parsed body; webhook signatures are computed over them
+  app.use(
+    express.json({
+      verify: (req, _res, buf) => {
+        Object.assign(req, { rawBody: buf })
+      },
+    })
+  )
+
+  const { simulation = liveSimulation, fulfillment = process.env.FULFILLMENT_SIMULATOR !== 'off' } = options
+  const { rng, clock } = simulation
+  const now = () => new Date(clock.now())
+
+  const store = publishingOrders(options.store ?? createStore())
+  const inventory = createInventory(store, {
+    ttlMs: Number(process.env.INVENTORY_RESERVATION_TTL_MS ?? 30_000),
+    clock,
+  })
+  const orderLifecycle = createOrderLifecycle(store, clock)
+
+  // Moves paid orders through picking, shipped and delivered in the background
+  if (fulfillment) {
+    startFulfillmentSimulator(store, orderLifecycle, {
+      delays: getFulfillmentDelays(),
+      tickMs: Number(process.env.FULFILLMENT_TICK_MS ?? 1000),
+      clock,
+    })
+  }
+
+  resetProviderConfig()
+  clearQuotes()
+  resetPromotionUsage()
+  stopChaosScenario()
+
+  // Optional scripted incident; its clock starts at boot and can be restarted via the API
+  const chaosScenario = process.env.CHAOS_SCENARIO ? loadChaosScenario(process.env.CHAOS_SCENARIO) : undefined
+  if (chaosScenario) startChaosScenario(chaosScenario, clock.now())
+
+  async function closeCart(cartId: string, orderId: string) {
+    const stored = await store.getCart(cartId)
+    if (stored) await store.saveCart({ ...stored, status: 'checked_out', orderId, updatedAt: now().toISOString() })
+  }
+
+  // PAYMENT_CONFIRMATION=async: checkout answers 202 and the provider confirms via webhook
+  const asyncPayments = process.env.PAYMENT_CONFIRMATION === 'async'
+  // Where the fake providers deliver webhooks; this same backend unless set
+  const webhookBaseUrl = process.env.PAYMENT_WEBHOOK_BASE_URL ?? `http://localhost:${process.env.PORT ?? 5174}`
+  // What an async checkout holds until its webhook arrives. Process-local, like reservations.
+  const pendingPayments = new Map<string, { reservation: Reservation; promoCode?: string }>()
+  const webhookEvents = createWebhookDeduper({ ttlMs: 24 * 60 * 60 * 1000 })
+
+  const checkoutIdempotency = idempotency({
+    ttlMs: Number(process.env.IDEMPOTENCY_TTL_MS ?? 24 * 60 * 60 * 1000),
+    clock,
+  })
+
+  app.post('/api/checkout', checkoutIdempotency, async (req: Request, res: Response) => {
+    // Start a server span; distributed tracing will be handled automatically via propagation
+    const processOrder = () => Sentry.startSpan(
+      {
+        name: 'Order Processing',
+        op: 'commerce.order.server',
+      },
+      async (span) => {
+        try {
+          const body = parseCartRequest(checkoutRequestSchema, req.body)
+          if (body instanceof ApiError) {
+            span.setAttribute('payment.status', 'failed')
+            span.setAttribute('inventory.reserved', false)
+            sendError(res, body)
+            return
+          }
+          const cart = await priceCart(store, body)
+          if (cart instanceof ApiError) {
+            span.setAttribute('payment.status', 'failed')
+            span.setAttribute('inventory.reserved', false)
+            sendError(res, cart)
+            return
+          }
+          const requestedProvider = body.paymentProvider ?? pickPaymentProvider(rng)
+          const { currency, lines, subtotalMinor } = cart
+          span.setAttribute('cart.currency', currency)
+          if (cart.cartId) span.setAttribute('cart.id', cart.cartId)
+
+          let promotion: AppliedPromotion | undefined
+          const { promoCode } = body
+          if (promoCode !== undefined && promoCode.trim() !== '') {
+            try {
+              promotion = applyPromotion(promoCode, lines, currency, now())
+            } catch (err) {
+              if (!(err instanceof PromotionError)) throw err
+              span.setAttribute('promo.applied', false)
+              span.setAttribute('payment.status', 'failed')
+              span.setAttribute('inventory.reserved', false)
+              sendError(res, new ApiError('PROMO_INVALID', err.message, [{ field: 'promoCode', message: err.message }]))
+              return
+            }
+          }
+          span.setAttribute('promo.applied', !!promotion)
+          if (promotion) span.setAttribute('promo.type', promotion.type)
+
+          const delivery = deliveryFor(body, currency)
+          const pricing = buildQuote(cart, promotion, delivery, clock.now())
+          const { discountMinor, shippingMinor, taxMinor, totalMinor } = pricing
+
+          // The client tells us what it showed the shopper, as a quote or a bare total;
+          // refuse to charge a different amount
+          const { quoteId, expectedTotalMinor } = body
+          if (quoteId !== undefined) {
+            const quoted = getQuote(quoteId, clock.now())
+            if (!quoted || quoted.totalMinor !== totalMinor || quoted.currency !== currency) {
+              span.setAttribute('payment.status', 'failed')
+              span.setAttribute('inventory.reserved', false)
+              const message = quoted ? 'Quote is out of date' : 'Quote expired or unknown'
+              const quote: QuoteResponse = { ...saveQuote(pricing, clock.now(), rng), promotion: promotion ?? null, promoError: null }
+              sendError(res, new ApiError('QUOTE_STALE', message, [{ field: 'quoteId', message }]), { quote })
+              return
+            }
+          } else if (expectedTotalMinor !== undefined && expectedTotalMinor !== totalMinor) {
+            span.setAttribute('payment.status', 'failed')
+            span.setAttribute('inventory.reserved', false)
+            sendError(
+              res,
+              new ApiError('PRICE_MISMATCH', 'Price mismatch', [
+                { field: 'expectedTotalMinor', message: `Total is now ${totalMinor}` },
+              ]),
+              { currency, expectedTotalMinor, totalMinor }
+            )
+            return
+          }
+
+          // Hold stock while we charge; a sold-out line fails fast without touching the provider
+          let reservation
+          try {
+            reservation = await inventory.reserve(
+              lines,
+              Object.fromEntries(lines.map((l) => [l.productId, l.product.name]))
+            )
+          } catch (err) {
+            if (!(err instanceof OutOfStockError)) throw err
+            span.setAttribute('payment.status', 'failed')
+            span.setAttribute('inventory.reserved', false)
+            const index = lines.findIndex((l) => l.productId === err.productId)
+            sendError(
+              res,
+              new ApiError('OUT_OF_STOCK', err.message, [{ field: `items[${index}].quantity`, message: err.message }]),
+              { productId: err.productId, available: err.available }
+            )
+            return
+          }
+
+          if (promotion && !claimPromotion(promotion.code)) {
+            inventory.release(reservation)
+            span.setAttribute('payment.status', 'failed')
+            const message = `Promo code ${promotion.code} has been fully redeemed`
+            sendError(res, new ApiError('PROMO_EXHAUSTED', message, [{ field: 'promoCode', message }]))
+            return
+          }
+          const undo = () => {
+            inventory.release(reservation)
+            if (promotion) releasePromotion(promotion.code)
+          }
+
+          // The order exists from here on, so a payment that hangs or crashes still leaves a record
+          const orderId = randomId('ord', rng)
+          const createdAt = now().toISOString()
+          const pending: Order = {
+            id: orderId,
+            status: 'pending_payment',
+            paymentProvider: requestedProvider,
+            paymentAttempts: 0,
+            currency,
+            items: lines,
+            itemCount: lines.reduce((sum, l) => sum + l.quantity, 0),
+            subtotalMinor,
+            discountMinor,
+            promoCode: promotion?.code,
+            region: delivery.region,
+            shippingMethod: delivery.shippingMethod,
+            shippingMinor,
+            taxMinor,
+            totalMinor,
+            refundedMinor: 0,
+            refunds: [],
+            history: [{ from: null, to: 'pending_payment', at: createdAt }],
+            checkoutTrace: { traceId: span.spanContext().traceId, spanId: span.spanContext().spanId },
+            createdAt,
+            updatedAt: createdAt,
+          }
+          await store.saveOrder(pending)
+
+          // Async confirmation: the provider answers later via webhook, so hand back the pending order
+          if (asyncPayments) {
+            pendingPayments.set(orderId, { reservation, promoCode: promotion?.code })
+            requestAsyncCharge({
+              webhookUrl: `${webhookBaseUrl}/api/webhooks/${requestedProvider}`,
+              provider: requestedProvider,
+              orderId,
+              amountMinor: totalMinor,
+              traceHeaders: Sentry.getTraceData(),
+              simulation,
+            })
+            if (cart.cartId) await closeCart(cart.cartId, orderId)
+            span.setAttribute('order.id', orderId)
+            span.setAttribute('payment.provider', requestedProvider)
+            span.setAttribute('payment.status', 'pending')
+            span.setAttribute('payment.confirmation', 'async')
+            span.setAttribute('inventory.reserved', true)
+            const accepted: CheckoutResponse = {
+              orderId,
+              status: pending.status,
+              paymentProvider: requestedProvider,
+              requestedPaymentProvider: requestedProvider,
+              paymentAttempts: 0,
+              currency,
+              subtotalMinor,
+              discountMinor,
+              promoCode: promotion?.code ?? null,
+              shippingMinor,
+              taxMinor,
+              totalMinor,
+            }
+            res.status(202).json(accepted)
+            return
+          }
+
+          // Simulate payment, retrying and failing over according to the provider's policy
+          const charge = await chargeWithFailover(totalMinor, requestedProvider, simulation).catch(async (err) => {
+            // A provider that throws never took the money, so give the stock back right away
+            undo()
+            await store.saveOrder(transitionOrder(pending, 'failed', 'provider_error', now()))
+            throw err
+          })
+          if (charge.chaosPhase) span.setAttribute('chaos.phase', charge.chaosPhase)
+          span.setAttribute('payment.attempts', charge.attempts)
+          span.setAttribute('payment.failover', charge.provider !== requestedProvider)
+
+          const failed = charge.status !== 'success'
+          if (failed) undo()
+          else await inventory.commit(reservation)
+
+          const timedOut = charge.status === 'timeout'
+          await store.saveOrder(
+            transitionOrder(
+              { ...pending, paymentProvider: charge.provider, paymentAttempts: charge.attempts },
+              failed ? 'failed' : 'paid',
+              failed ? (timedOut ? 'provider_timeout' : 'payment_declined') : undefined,
+              now()
+            )
+          )
+
+          if (failed) {
+            span.setAttribute('payment.provider', charge.provider)
+            span.setAttribute('payment.status', charge.status)
+            span.setAttribute('inventory.reserved', true)
+            const error = timedOut
+              ? new ApiError('PROVIDER_TIMEOUT', `${charge.provider} did not respond in time`)
+              : new ApiError('PAYMENT_DECLINED', `Payment declined by ${charge.provider}`)
+            sendError(res, error, { orderId, paymentProvider: charge.provider })
+            return
+          }
+
+          if (cart.cartId) await closeCart(cart.cartId, orderId)
+
+          // Set attributes before returning
+          span.setAttribute('order.id', orderId)
+          span.setAttribute('payment.provider', charge.provider)
+          span.setAttribute('payment.status', 'success')
+          span.setAttribute('inventory.reserved', true)
+
+          const paid: CheckoutResponse = {
+            orderId,
+            status: 'paid',
+            paymentProvider: charge.provider,
+            requestedPaymentProvider: requestedProvider,
+            paymentAttempts: charge.attempts,
+            currency,
+            subtotalMinor,
+            discountMinor,
+            promoCode: promotion?.code ?? null,
+            shippingMinor,
+            taxMinor,
+            totalMinor,
+          }
+          res.json(paid)
+        } catch (err) {
+          sendUnexpectedError(
+            res,
+            err,
+            err instanceof PaymentProviderError ? new ApiError('PROVIDER_ERROR', `${err.provider} is unavailable`) : undefined
+          )
+        }
+      }
+    )
+
+    // One checkout per cart at a time, so a second tab can't pay for the same cart twice
+    const cartId = req.body?.cartId
+    await (typeof cartId === 'string' ? withCartLock(cartId, processOrder) : processOrder())
+  })
+
+  /*
+    Full price breakdown for the cart drawer: subtotal, promo discount, shipping options, regional
+    tax and grand total. A promo code that doesn't apply is reported in `promoError` and left out,
+    so the shopper still gets a quote. Pass the returned `id` as `quoteId` at checkout.
+  */
+  app.post('/api/checkout/quote', async (req: Request, res: Response) => {
+    const body = parseCartRequest(quoteRequestSchema, req.body)
+    if (body instanceof ApiError) {
+      sendError(res, body)
+      return
+    }
+    const cart = await priceCart(store, body)
+    if (cart instanceof ApiError) {
+      sendError(res, cart)
+      return
+    }
+    const { promoCode } = body
+    let promotion: AppliedPromotion | undefined
+    let promoError: string | null = null
+    if (promoCode !== undefined && promoCode.trim() !== '') {
+      try {
+        promotion = applyPromotion(promoCode, cart.lines, cart.currency, now())
+      } catch (err) {
+        if (!(err instanceof PromotionError)) throw err
+        promoError = err.message
+      }
+    }
+    const quote: QuoteResponse = {
+      ...saveQuote(buildQuote(cart, promotion, deliveryFor(body, cart.currency), clock.now()), clock.now(), rng),
+      promotion: promotion ?? null,
+      promoError,
+    }
+    res.json(quote)
+  })
+
+  // Lets the cart show a code's discount live; nothing is claimed until checkout
+  app.post('/api/promotions/validate', async (req: Request, res: Response) => {
+    const body = parseCartRequest(promotionRequestSchema, req.body)
+    if (body instanceof ApiError) {
+      sendError(res, body)
+      return
+    }
+    const cart = await priceCart(store, body)
+    if (cart instanceof ApiError) {
+      sendError(res, cart)
+      return
+    }
+    try {
+      const promotion = applyPromotion(body.code, cart.lines, cart.currency, now())
+      res.json({
+        ...promotion,
+        currency: cart.currency,
+        subtotalMinor: cart.subtotalMinor,
+        totalMinor: cart.subtotalMinor - promotion.discountMinor,
+      })
+    } catch (err) {
+      if (!(err instanceof PromotionError)) throw err
+      sendError(res, new ApiError('PROMO_INVALID', err.message, [{ field: 'code', message: err.message }]))
+    }
+  })
+
+  /*
+    Server-side carts. The client keeps only the cart id; every mutation returns the whole cart
+    and is traced as a `commerce.cart` span. Check out with `{ cartId }` instead of `items`.
+  */
+  app.post('/api/carts', async (_req: Request, res: Response) => {
+    const cart = newCart(randomId('cart', rng), now())
+    await store.saveCart(cart)
+    res.status(201).json(cart)
+  })
+
+  app.get('/api/carts/:id', async (req: Request, res: Response) => {
+    const cart = await store.getCart(req.params.id)
+    if (!cart) {
+      sendError(res, new ApiError('CART_NOT_FOUND', 'Cart not found'))
+      return
+    }
+    res.json(cart)
+  })
+
+  async function updateCart(req: Request, res: Response, mutation: CartMutation) {
+    await Sentry.startSpan(
+      {
+        name: 'Cart Update',
+        op: 'commerce.cart',
+        attributes: { 'cart.id': req.params.id, 'cart.action': mutation.action, 'cart.product_id': mutation.productId },
+      },
+      (span) =>
+        withCartLock(req.params.id, async () => {
+          const cart = await store.getCart(req.params.id)
+          if (!cart) {
+            sendError(res, new ApiError('CART_NOT_FOUND', 'Cart not found'))
+            return
+          }
+          if (cart.status === 'checked_out') {
+            sendError(res, new ApiError('CART_CHECKED_OUT', 'Cart has already been checked out'), {
+              orderId: cart.orderId,
+            })
+            return
+          }
+          if (mutation.action !== 'remove' && !(await store.getProduct(mutation.productId))) {
+            const message = `Unknown product: ${mutation.productId}`
+            sendError(res, new ApiError('ITEM_INVALID', 'Invalid cart item', [{ field: 'productId', message }]))
+            return
+          }
+          const updated = mutateCart(cart, mutation, now())
+          await store.saveCart(updated)
+          span.setAttribute('cart.item_count', cartItemCount(updated))
+          span.setAttribute('cart.line_count', updated.lines.length)
+          res.json(updated)
+        })
+    )
+  }
+
+  app.post('/api/carts/:id/lines', async (req: Request, res: Response) => {
+    const body = parseRequest(addCartLineRequestSchema, req.body)
+    if (body instanceof ApiError) {
+      sendError(res, body)
+      return
+    }
+    await updateCart(req, res, { action: 'add', productId: body.productId, quantity: body.quantity ?? 1 })
+  })
+
+  // Sets a line's quantity outright; 0 removes the line
+  app.put('/api/carts/:id/lines/:productId', async (req: Request, res: Response) => {
+    const body = parseRequest(setCartLineRequestSchema, req.body)
+    if (body instanceof ApiError) {
+      sendError(res, body)
+      return
+    }
+    await updateCart(req, res, { action: 'set', productId: req.params.productId, quantity: body.quantity })
+  })
+
+  app.delete('/api/carts/:id/lines/:productId', async (req: Request, res: Response) => {
+    await updateCart(req, res, { action: 'remove', productId: req.params.productId })
+  })
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ ok: true })
+  })
+
+  // Prices are returned in `?currency=` (default USD) as `priceMinor` in that currency's minor units
+  app.get('/api/products', async (req: Request, res: Response) => {
+    const currency = req.query.currency ?? 'USD'
+    if (!isCurrency(currency)) {
+      sendError(res, invalidField('currency', `Unsupported currency: ${currency}`))
+      return
+    }
+    const [products, available] = await Promise.all([store.listProducts(), inventory.availability()])
+    const listings: ProductListing[] = products.map((p) => ({
+      ...p,
+      priceMinor: priceIn(p, currency),
+      currency,
+      available: available[p.id] ?? 0,
+    }))
+    res.json(listings)
+  })
+
+  // Puts every product back to its seed stock (SEED_STOCK or STOCK_<ID>), e.g. before a load test
+  app.post('/api/inventory/reset', async (_req: Request, res: Response) => {
+    await inventory.reset(getSeedStock())
+    res.json(await inventory.availability())
+  })
+
+  app.get('/api/currencies', (_req: Request, res: Response) => {
+    const currencies: CurrencyInfo[] = Object.entries(CURRENCIES).map(([code, { exponent }]) => ({ code, exponent }))
+    res.json(currencies)
+  })
+
+  app.get('/api/payment-config', (_req: Request, res: Response) => {
+    const cfg = getAllProviderConfigs()
+    res.json(cfg)
+  })
+
+  app.put('/api/payment-config/:provider', (req: Request, res: Response) => {
+    const provider = PAYMENT_PROVIDERS.find((p) => p === req.params.provider)
+    if (!provider) {
+      sendError(res, new ApiError('PROVIDER_UNKNOWN', `Unknown payment provider: ${req.params.provider}`))
+      return
+    }
+    const cfg = parseRequest(providerConfigSchema, req.body)
+    if (cfg instanceof ApiError) {
+      sendError(res, cfg)
+      return
+    }
+    setProviderConfig(provider, cfg)
+    logger.info(`${provider} config updated`, { provider, ...cfg })
+    res.json(getProviderConfig(provider))
+  })
+
+  // Drops runtime overrides so every provider goes back to its env/default config
+  app.delete('/api/payment-config', (_req: Request, res: Response) => {
+    resetProviderConfig()
+    res.json(getAllProviderConfigs())
+  })
+
+  app.get('/api/chaos', (_req: Request, res: Response) => {
+    res.json(getChaosState(clock.now()) ?? { scenario: null })
+  })
+
+  app.post('/api/chaos/restart', (_req: Request, res: Response) => {
+    if (!chaosScenario) {
+      sendError(res, new ApiError('CHAOS_NOT_LOADED', 'No chaos scenario loaded (set CHAOS_SCENARIO)'))
+      return
+    }
+    startChaosScenario(chaosScenario, clock.now())
+    res.json(getChaosState(clock.now()))
+  })
+
+  app.get('/api/orders', async (req: Request, res: Response) => {
+    const query = parseOrderQuery(req.query)
+    if (query instanceof ApiError) {
+      sendError(res, query)
+      return
+    }
+    const { orders, total } = await store.queryOrders(query)
+    res.json({
+      // Line items are only returned by the detail endpoint to keep pages small
+      orders: orders.map(({ items: _items, history: _history, refunds: _refunds, checkoutTrace: _trace, ...summary }) => summary),
+      page: query.page,
+      pageSize: query.pageSize,
+      total,
+      totalPages: Math.ceil(total / query.pageSize),
+    })
+  })
+
+  app.get('/api/orders/:id', async (req: Request, res: Response) => {
+    const order = await store.getOrder(req.params.id)
+    if (!order) {
+      sendError(res, new ApiError('ORDER_NOT_FOUND', 'Order not found'))
+      return
+    }
+    res.json(order)
+  })
+
+  /*
+    Payment confirmations from the (fake) providers. The signature is checked against the raw body,
+    each event id is applied once, and the order is moved from pending_payment to paid or failed.
+    Sentry continues the checkout trace from the delivery's trace headers, so the webhook shows up
+    in the same trace as the checkout that started the payment.
+  */
+  app.post('/api/webhooks/:provider', async (req: Request, res: Response) => {
+    const provider = PAYMENT_PROVIDERS.find((p) => p === req.params.provider)
+    if (!provider) {
+      sendError(res, new ApiError('PROVIDER_UNKNOWN', 'Unknown provider'))
+      return
+    }
+    const rawBody = (req as Request & { rawBody?: Buffer }).rawBody ?? Buffer.alloc(0)
+    const signatureError = verifyWebhookSignature(rawBody, req.get(SIGNATURE_HEADER), clock.now())
+    if (signatureError) {
+      sendError(res, new ApiError('WEBHOOK_SIGNATURE_INVALID', signatureError))
+      return
+    }
+    const event = req.body
+    if (!isWebhookEvent(event) || event.provider !== provider) {
+      sendError(res, new ApiError('WEBHOOK_EVENT_INVALID', 'Invalid webhook event'))
+      return
+    }
+
+    const handle = () => Sentry.startSpan(
+      {
+        name: 'Payment Webhook',
+        op: 'commerce.payment.webhook',
+        attributes: {
+          'payment.provider': provider,
+          'order.id': event.orderId,
+          'webhook.event_id': event.id,
+          'webhook.event_type': event.type,
+        },
+      },
+      async (span) => {
+        if (!webhookEvents.claim(event.id, clock.now())) {
+          span.setAttribute('webhook.duplicate', true)
+          res.json({ received: true, duplicate: true })
+          return
+        }
+        span.setAttribute('webhook.duplicate', false)
+        try {
+          const order = await withOrderLock(event.orderId, async () => {
+            const order = await store.getOrder(event.orderId)
+            // Already settled (or unknown): acknowledge so the provider stops retrying
+            if (!order || order.status !== 'pending_payment') return order
+
+            const succeeded = event.type === 'charge.succeeded'
+            const held = pendingPayments.get(order.id)
+            pendingPayments.delete(order.id)
+            if (succeeded) {
+              // Without a held reservation (e.g. after a restart) commit the order's lines directly
+              await inventory.commit(held?.reservation ?? { id: `order_${order.id}`, lines: order.items, expiresAt: 0 })
+            } else if (held) {
+              inventory.release(held.reservation)
+              if (held.promoCode) releasePromotion(held.promoCode)
+            }
+            const next = transitionOrder(
+              { ...order, paymentAttempts: 1 },
+              succeeded ? 'paid' : 'failed',
+              succeeded ? undefined : 'payment_declined',
+              now()
+            )
+            await store.saveOrder(next)
+            return next
+          })
+          if (event.chaosPhase) span.setAttribute('chaos.phase', event.chaosPhase)
+          span.setAttribute('payment.status', event.type === 'charge.succeeded' ? 'success' : 'failed')
+          span.setAttribute('order.status', order?.status ?? 'unknown')
+          res.json({ received: true, duplicate: false, orderStatus: order?.status ?? null })
+        } catch (err) {
+          webhookEvents.release(event.id)
+          sendUnexpectedError(res, err)
+        }
+      }
+    )
+
+    // Join the checkout trace from the delivery's headers, unless HTTP instrumentation already did
+    await (Sentry.getActiveSpan()
+      ? handle()
+      : Sentry.continueTrace({ sentryTrace: req.get('sentry-trace'), baggage: req.get('baggage') }, handle))
+  })
+
+  /*
+    Server-Sent Events stream of an order's status changes. Every entry in the order's history is a
+    `status` event whose id is its position, so a client that reconnects with `Last-Event-ID` (or
+    `?lastEventId=`) only gets what it missed. The stream stays open until the client leaves.
+  */
+  app.get('/api/orders/:id/events', async (req: Request, res: Response) => {
+    const order = await store.getOrder(req.params.id)
+    if (!order) {
+      sendError(res, new ApiError('ORDER_NOT_FOUND', 'Order not found'))
+      return
+    }
+    const resumeFrom = Number(req.get('Last-Event-ID') ?? req.query.lastEventId ?? 0)
+    let sent = Number.isInteger(resumeFrom) && resumeFrom > 0 ? resumeFrom : 0
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    })
+    res.write('retry: 2000\n\n')
+
+    const send = (current: Order) => {
+      for (; sent < current.history.length; sent++) {
+        const transition = current.history[sent]
+        const data: OrderStatusEvent = { orderId: current.id, ...transition, status: transition.to }
+        res.write(`id: ${sent + 1}\nevent: status\ndata: ${JSON.stringify(data)}\n\n`)
+      }
+    }
+    // Subscribe before replaying, so a change saved in between isn't missed
+    const unsubscribe = subscribeToOrder(order.id, send)
+    send((await store.getOrder(order.id)) ?? order)
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS)
+    req.on('close', () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    })
+  })
+
+  // Body: `{ amountMinor?, reason? }`; without an amount, refunds everything not refunded yet
+  app.post('/api/orders/:id/refund', async (req: Request, res: Response) => {
+    const body = parseRequest(refundRequestSchema, req.body)
+    if (body instanceof ApiError) {
+      sendError(res, body)
+      return
+    }
+    try {
+      sendRefundOutcome(res, await refundOrder(store, orderLifecycle, req.params.id, body.amountMinor, body.reason, simulation))
+    } catch (err) {
+      sendOrderActionError(res, err)
+    }
+  })
+
+  // Body: `{ reason? }`; paid orders are refunded in full before they are cancelled
+  app.post('/api/orders/:id/cancel', async (req: Request, res: Response) => {
+    const body = parseRequest(cancelRequestSchema, req.body)
+    if (body instanceof ApiError) {
+      sendError(res, body)
+      return
+    }
+    try {
+      sendRefundOutcome(res, await cancelOrder(store, orderLifecycle, inventory, req.params.id, body.reason, simulation))
+    } catch (err) {
+      sendOrderActionError(res, err)
+    }
+  })
+
+  // Unknown API routes get the envelope too, instead of Express's HTML page
+  app.use('/api', (req: Request, res: Response) => {
+    sendError(res, new ApiError('ROUTE_NOT_FOUND', `No route for ${req.method} ${req.baseUrl}${req.path}`))
+  })
+
+  // Reports what routes threw to Sentry (leaving the event id on `res.sentry`); errorHandler answers
+  Sentry.setupExpressErrorHandler(app)
+  app.use(errorHandler)
+
+  return app
+}
@@ -0,0 +1,45 @@
+import { createKeyedLock } from './locks'
+import { Cart } from './types'
+
+export type CartMutation =
+  | { action: 'add'; productId: string; quantity: number }
+  | { action: 'set'; productId: string; quantity: number }
+  | { action: 'remove'; productId: string }
+
+// Upper bound per line, so a stuck "+" button can't build an absurd cart
+export const MAX_LINE_QUANTITY = 99
+
+export function newCart(id: string, now = new Date()): Cart {
+  const ts = now.toISOString()
+  return { id, status: 'open', lines: [], createdAt: ts, updatedAt: ts }
+}
+
+// Returns the cart with the mutation applied; setting a quantity of 0 removes the line
+export function mutateCart(cart: Cart, mutation: CartMutation, now = new Date()): Cart {
+  const existing = cart.lines.find((l) => l.productId === mutation.productId)
+  let quantity: number
+  switch (mutation.action) {
+    case 'add':
+      quantity = (existing?.quantity ?? 0) + mutation.quantity
+      break
+    case 'set':
+      quantity = mutation.quantity
+      break
+    case 'remove':
+      quantity = 0
+      break
+  }
+  quantity = Math.min(quantity, MAX_LINE_QUANTITY)
+
+  const lines = existing
+    ? cart.lines.map((l) => (l.productId === mutation.productId ? { ...l, quantity } : l))
+    : [...cart.lines, { productId: mutation.productId, quantity }]
+  return { ...cart, lines: lines.filter((l) => l.quantity > 0), updatedAt: now.toISOString() }
+}
+
+export function cartItemCount(cart: Cart): number {
+  return cart.lines.reduce((sum, l) => sum + l.quantity, 0)
+}
+
+// Runs read-modify-write steps on one cart one at a time, so two quick "Add" clicks both count
+export const withCartLock = createKeyedLock()
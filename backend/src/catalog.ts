@@ -0,0 +1,67 @@
+import type { ProductId } from '../../contract/src'
+import { Product } from './types'
+
+// Products written into an empty store on first boot; their ids are the contract's PRODUCT_IDS
+export const SEED_PRODUCTS: (Product & { id: ProductId })[] = [
+  {
+    id: 'npe',
+    name: 'NullPointerException',
+    description: 'Classic dereference gone wrong. Perfect for legacy Java stacks.',
+    priceMinor: 1299,
+    badge: 'Bestseller',
+    color: 'from-purple-600 to-pink-600',
+  },
+  {
+    id: 'typeerror',
+    name: 'TypeError: undefined is not a function',
+    description: 'Bring back 2014 vibes in your JS app.',
+    priceMinor: 999,
+    color: 'from-blue-600 to-cyan-600',
+  },
+  {
+    id: 'segfault',
+    name: 'Segmentation Fault',
+    description: 'A low-level thrill for your C/C++ adventures.',
+    priceMinor: 1999,
+    badge: 'Premium',
+    color: 'from-red-600 to-orange-600',
+  },
+  {
+    id: 'syntax',
+    name: 'SyntaxError: Unexpected token',
+    description: 'Small typo, big adventure. Great for onboarding.',
+    priceMinor: 599,
+    color: 'from-green-600 to-emerald-600',
+  },
+  {
+    id: 'oom',
+    name: 'OutOfMemoryError',
+    description: 'Stress-test your autoscaling like a pro.',
+    priceMinor: 2499,
+    color: 'from-indigo-600 to-purple-600',
+  },
+]
+
+// Units on hand per product the first time a store sees it. Deliberately uneven so the
+// storefront can demo "only N left" and sold-out states under load.
+export const SEED_STOCK: Record<ProductId, number> = {
+  npe: 500,
+  typeerror: 300,
+  segfault: 60,
+  syntax: 1000,
+  oom: 25,
+}
+
+// SEED_STOCK with per-product overrides from env, e.g. STOCK_OOM=1000 for a long load test
+export function getSeedStock(env: NodeJS.ProcessEnv = process.env): Record<ProductId, number> {
+  const stock = { ...SEED_STOCK }
+  for (const id of Object.keys(stock) as ProductId[]) {
+    const name = `STOCK_${id.toUpperCase()}`
+    const raw = env[name]
+    if (raw === undefined || raw === '') continue
+    const units = Number(raw)
+    if (!Number.isInteger(units) || units < 0) throw new Error(`${name} must be a whole number of units, got "${raw}"`)
+    stock[id] = units
+  }
+  return stock
+}
@@ -0,0 +1,145 @@
+import fs from 'node:fs'
+import { PAYMENT_PROVIDERS, PaymentProvider } from './types'
+import type { ProviderConfig } from './payments'
+
+// How a phase bends one provider's behavior. Unset fields leave the base config alone.
+export type ChaosEffect = {
+  failureRate?: number
+  minMs?: number
+  maxMs?: number
+  // Latency moves linearly from the base config to this value over the phase
+  latencyRampToMs?: number
+  // Share of charges that throw (an unhandled provider error) instead of returning `failed`
+  throwRate?: number
+}
+
+export type ChaosPhase = {
+  name: string
+  durationMs: number
+  providers?: Partial<Record<PaymentProvider, ChaosEffect>>
+}
+
+export type ChaosScenario = {
+  name: string
+  // Start over after the last phase instead of going quiet
+  loop?: boolean
+  phases: ChaosPhase[]
+}
+
+export type ChaosState = {
+  scenario: string
+  phase: string | null
+  phaseIndex: number | null
+  elapsedMs: number
+  phaseElapsedMs: number | null
+  phaseRemainingMs: number | null
+  completed: boolean
+}
+
+let active: { scenario: ChaosScenario; startedAt: number } | undefined
+
+function fail(file: string, message: string): never {
+  throw new Error(`Invalid chaos scenario ${file}: ${message}`)
+}
+
+function isRate(value: unknown) {
+  return typeof value === 'number' && value >= 0 && value <= 1
+}
+
+function isMs(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+// Reads and validates a scenario file; throws so a typo fails the boot instead of the demo
+export function loadChaosScenario(file: string): ChaosScenario {
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'))
+  } catch (err) {
+    fail(file, err instanceof Error ? err.message : String(err))
+  }
+  const scenario = raw as ChaosScenario
+  if (typeof scenario?.name !== 'string') fail(file, 'name must be a string')
+  if (!Array.isArray(scenario.phases) || scenario.phases.length === 0) fail(file, 'phases must be a non-empty array')
+  scenario.phases.forEach((phase, i) => {
+    const where = `phases[${i}]`
+    if (typeof phase?.name !== 'string') fail(file, `${where}.name must be a string`)
+    if (!isMs(phase.durationMs) || phase.durationMs === 0) fail(file, `${where}.durationMs must be a positive number`)
+    for (const [provider, effect] of Object.entries(phase.providers ?? {})) {
+      if (!PAYMENT_PROVIDERS.some((p) => p === provider)) fail(file, `${where}: unknown provider ${provider}`)
+      for (const key of ['failureRate', 'throwRate'] as const) {
+        if (effect[key] !== undefined && !isRate(effect[key])) fail(file, `${where}.${provider}.${key} must be 0-1`)
+      }
+      for (const key of ['minMs', 'maxMs', 'latencyRampToMs'] as const) {
+        if (effect[key] !== undefined && !isMs(effect[key])) fail(file, `${where}.${provider}.${key} must be >= 0`)
+      }
+    }
+  })
+  return scenario
+}
+
+// Starts (or restarts) the scenario clock
+export function startChaosScenario(scenario: ChaosScenario, now = Date.now()) {
+  active = { scenario, startedAt: now }
+}
+
+export function stopChaosScenario() {
+  active = undefined
+}
+
+function currentPhase(now: number): { phase: ChaosPhase; index: number; phaseElapsedMs: number } | undefined {
+  if (!active) return undefined
+  const { scenario, startedAt } = active
+  const totalMs = scenario.phases.reduce((sum, p) => sum + p.durationMs, 0)
+  let elapsed = now - startedAt
+  if (elapsed >= totalMs) {
+    if (!scenario.loop) return undefined
+    elapsed %= totalMs
+  }
+  for (const [index, phase] of scenario.phases.entries()) {
+    if (elapsed < phase.durationMs) return { phase, index, phaseElapsedMs: elapsed }
+    elapsed -= phase.durationMs
+  }
+  return undefined
+}
+
+export function getChaosState(now = Date.now()): ChaosState | null {
+  if (!active) return null
+  const current = currentPhase(now)
+  return {
+    scenario: active.scenario.name,
+    phase: current?.phase.name ?? null,
+    phaseIndex: current?.index ?? null,
+    elapsedMs: now - active.startedAt,
+    phaseElapsedMs: current?.phaseElapsedMs ?? null,
+    phaseRemainingMs: current ? current.phase.durationMs - current.phaseElapsedMs : null,
+    completed: !current,
+  }
+}
+
+// The provider config with the active phase applied, plus what fakeCharge needs to misbehave
+export function applyChaos(
+  provider: PaymentProvider,
+  base: ProviderConfig,
+  now = Date.now()
+): { config: ProviderConfig; throwRate: number; phase: string | null } {
+  const current = currentPhase(now)
+  const effect = current?.phase.providers?.[provider]
+  if (!current || !effect) return { config: base, throwRate: 0, phase: current?.phase.name ?? null }
+
+  let { minMs, maxMs } = base
+  if (effect.latencyRampToMs !== undefined) {
+    const progress = current.phaseElapsedMs / current.phase.durationMs
+    minMs = Math.round(minMs + (effect.latencyRampToMs - minMs) * progress)
+    maxMs = Math.round(maxMs + (effect.latencyRampToMs - maxMs) * progress)
+  }
+  return {
+    config: {
+      minMs: effect.minMs ?? minMs,
+      maxMs: effect.maxMs ?? maxMs,
+      failureRate: effect.failureRate ?? base.failureRate,
+    },
+    throwRate: effect.throwRate ?? 0,
+    phase: current.phase.name,
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  flag,
+  json,
+  numeric,
+  number,
+  object,
+  optional,
+  parseEnv,
+  type SampleRule,
+  sampleRulesSchema,
+  string,
+  url,
+} from '../../contract/src'
+
+/*
+  Sentry SDK settings, validated once at startup; a bad value stops the process with every
+  problem listed rather than silently dropping traces. All variables are optional:
+    SENTRY_DSN                    no DSN, no events
+    SENTRY_ENVIRONMENT            defaults to NODE_ENV, else `development`
+    SENTRY_RELEASE                e.g. a git sha
+    SENTRY_DEBUG                  SDK debug logging (default false)
+    SENTRY_TRACES_SAMPLE_RATE     rate for traces no rule matches and no parent decided (default 1)
+    SENTRY_TRACES_SAMPLER_RULES   JSON array of `{ route?, op?, rate }`, replacing the defaults below
+*/
+const envSchema = object({
+  SENTRY_DSN: optional(url()),
+  SENTRY_ENVIRONMENT: optional(string({ min: 1 })),
+  SENTRY_RELEASE: optional(string({ min: 1 })),
+  SENTRY_DEBUG: optional(flag()),
+  SENTRY_TRACES_SAMPLE_RATE: optional(numeric(number({ min: 0, max: 1 }))),
+  SENTRY_TRACES_SAMPLER_RULES: optional(json(sampleRulesSchema)),
+  NODE_ENV: optional(string()),
+})
+
+// Every checkout is worth keeping; health checks mostly aren't
+export const DEFAULT_SAMPLER_RULES: SampleRule[] = [
+  { route: 'POST /api/checkout', rate: 1 },
+  { route: '/api/health', rate: 0.1 },
+]
+
+export type SentryConfig = {
+  dsn?: string
+  environment: string
+  release?: string
+  debug: boolean
+  tracesSampleRate: number
+  tracesSamplerRules: SampleRule[]
+}
+
+export function loadSentryConfig(env: NodeJS.ProcessEnv = process.env): SentryConfig {
+  const parsed = parseEnv(envSchema, env)
+  return {
+    dsn: parsed.SENTRY_DSN,
+    environment: parsed.SENTRY_ENVIRONMENT ?? parsed.NODE_ENV ?? 'development',
+    release: parsed.SENTRY_RELEASE,
+    debug: parsed.SENTRY_DEBUG ?? false,
+    tracesSampleRate: parsed.SENTRY_TRACES_SAMPLE_RATE ?? 1,
+    tracesSamplerRules: parsed.SENTRY_TRACES_SAMPLER_RULES ?? DEFAULT_SAMPLER_RULES,
+  }
+}
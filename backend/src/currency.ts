@@ -0,0 +1,32 @@
+import { Product } from './types'
+
+export type Currency = 'USD' | 'EUR' | 'GBP' | 'JPY'
+
+// Catalog prices are stored in this currency and converted on the way out
+export const BASE_CURRENCY: Currency = 'USD'
+
+/*
+  Static conversion table. `rate` is units of the currency per 1 USD; `exponent` is the number of
+  minor-unit digits (JPY has none), so 1299 USD minor = $12.99 = ¥1,949 = 1949 JPY minor.
+*/
+export const CURRENCIES: Record<Currency, { rate: number; exponent: number }> = {
+  USD: { rate: 1, exponent: 2 },
+  EUR: { rate: 0.92, exponent: 2 },
+  GBP: { rate: 0.79, exponent: 2 },
+  JPY: { rate: 150, exponent: 0 },
+}
+
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && Object.keys(CURRENCIES).includes(value)
+}
+
+export function convertMinor(baseMinor: number, currency: Currency): number {
+  const { rate, exponent } = CURRENCIES[currency]
+  const baseExponent = CURRENCIES[BASE_CURRENCY].exponent
+  return Math.round(baseMinor * rate * 10 ** (exponent - baseExponent))
+}
+
+// The unit price a shopper sees and pays in the given currency
+export function priceIn(product: Product, currency: Currency): number {
+  return convertMinor(product.priceMinor, currency)
+}
@@ -0,0 +1,132 @@
+import { ErrorRequestHandler, Response } from 'express'
+import * as Sentry from '@sentry/node'
+import type { ErrorBody, ErrorCode, ErrorDetail, Validator } from '../../contract/src'
+
+/*
+  Status and retryability per code of the contract's error envelope. `retryable` is true when
+  sending the same request again later can succeed. `details` points at the request fields that
+  were wrong, when there are any. Some responses carry extra context (a fresh quote, the order)
+  next to `error`.
+*/
+const ERRORS: Record<ErrorCode, { status: number; retryable: boolean }> = {
+  VALIDATION_FAILED: { status: 400, retryable: false },
+  MALFORMED_JSON: { status: 400, retryable: false },
+  PAYLOAD_TOO_LARGE: { status: 413, retryable: false },
+  ROUTE_NOT_FOUND: { status: 404, retryable: false },
+  CART_EMPTY: { status: 400, retryable: false },
+  ITEM_INVALID: { status: 400, retryable: false },
+  CART_NOT_FOUND: { status: 404, retryable: false },
+  CART_CHECKED_OUT: { status: 409, retryable: false },
+  PROMO_INVALID: { status: 400, retryable: false },
+  PROMO_EXHAUSTED: { status: 409, retryable: false },
+  QUOTE_STALE: { status: 409, retryable: false },
+  PRICE_MISMATCH: { status: 409, retryable: false },
+  OUT_OF_STOCK: { status: 409, retryable: false },
+  // Declines are random in the simulation, as they often are in life; another try may go through
+  PAYMENT_DECLINED: { status: 402, retryable: true },
+  PROVIDER_TIMEOUT: { status: 504, retryable: true },
+  PROVIDER_ERROR: { status: 502, retryable: true },
+  REFUND_DECLINED: { status: 502, retryable: true },
+  ORDER_NOT_FOUND: { status: 404, retryable: false },
+  ORDER_NOT_PAID: { status: 409, retryable: false },
+  ORDER_NOT_REFUNDABLE: { status: 409, retryable: false },
+  ORDER_NOT_CANCELLABLE: { status: 409, retryable: false },
+  REFUND_EXCEEDS_BALANCE: { status: 400, retryable: false },
+  IDEMPOTENCY_KEY_INVALID: { status: 400, retryable: false },
+  IDEMPOTENCY_KEY_REUSED: { status: 409, retryable: false },
+  IDEMPOTENCY_REQUEST_INCOMPLETE: { status: 409, retryable: true },
+  PROVIDER_UNKNOWN: { status: 404, retryable: false },
+  CHAOS_NOT_LOADED: { status: 404, retryable: false },
+  WEBHOOK_SIGNATURE_INVALID: { status: 401, retryable: false },
+  WEBHOOK_EVENT_INVALID: { status: 400, retryable: false },
+  INTERNAL_ERROR: { status: 500, retryable: true },
+}
+
+export type { ErrorCode, ErrorDetail } from '../../contract/src'
+
+// What request helpers return (or throw) instead of a bare message, so the handler can send it as-is
+export class ApiError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: ErrorDetail[]
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+
+  get status(): number {
+    return ERRORS[this.code].status
+  }
+
+  get retryable(): boolean {
+    return ERRORS[this.code].retryable
+  }
+
+  toBody(): ErrorBody {
+    const { code, message, retryable, details } = this
+    return { error: { code, message, retryable, ...(details?.length ? { details } : {}) } }
+  }
+}
+
+// A request field that failed validation; the message doubles as the error message
+export function invalidField(field: string, message: string): ApiError {
+  return new ApiError('VALIDATION_FAILED', message, [{ field, message }])
+}
+
+// Validates a request body (or query) against its contract schema, reporting every bad field
+export function parseRequest<T>(schema: Validator<T>, input: unknown): T | ApiError {
+  const result = schema(input ?? {})
+  return result.ok ? result.value : new ApiError('VALIDATION_FAILED', result.issues[0].message, result.issues)
+}
+
+// Tags the current span and the request's root span, so failures can be grouped by code
+function recordErrorCode(err: ApiError) {
+  const active = Sentry.getActiveSpan()
+  if (!active) return
+  for (const span of new Set([active, Sentry.getRootSpan(active)])) {
+    span.setAttribute('error.code', err.code)
+    span.setAttribute('error.retryable', err.retryable)
+  }
+}
+
+// Sends the envelope with the code's status; `context` goes next to `error` in the body
+export function sendError(res: Response, err: ApiError, context: Record<string, unknown> = {}) {
+  recordErrorCode(err)
+  res.status(err.status).json({ ...err.toBody(), ...context })
+}
+
+// Response header carrying the Sentry event id of an unexpected failure
+export const EVENT_ID_HEADER = 'Sentry-Event-Id'
+
+/*
+  Reports an error nobody planned for and answers with `err` (500 INTERNAL_ERROR by default).
+  The Sentry event id goes into the body and the `Sentry-Event-Id` header, so the shopper can
+  quote it. Errors that already went through Sentry's Express handler aren't captured twice.
+*/
+export function sendUnexpectedError(
+  res: Response,
+  cause: unknown,
+  err = new ApiError('INTERNAL_ERROR', 'Internal error')
+) {
+  const eventId = (res as Response & { sentry?: string }).sentry ?? Sentry.captureException(cause)
+  recordErrorCode(err)
+  res.setHeader(EVENT_ID_HEADER, eventId)
+  res.status(err.status).json({ error: { ...err.toBody().error, eventId } })
+}
+
+// Errors body-parser raises before a route runs; anything else it raises is a 4xx we don't expect
+const BODY_PARSER_ERRORS = new Map<unknown, [ErrorCode, string]>([
+  ['entity.parse.failed', ['MALFORMED_JSON', 'Request body is not valid JSON']],
+  ['entity.too.large', ['PAYLOAD_TOO_LARGE', 'Request body is too large']],
+])
+
+// Last middleware: whatever a route threw, rejected with or passed to `next` becomes an envelope
+export const errorHandler: ErrorRequestHandler = (err, _req, res, next) => {
+  // Too late for a JSON body (e.g. an SSE stream that already started); let Express close it
+  if (res.headersSent) return next(err)
+  if (err instanceof ApiError) return err.status >= 500 ? sendUnexpectedError(res, err, err) : sendError(res, err)
+  const parseError = BODY_PARSER_ERRORS.get(err?.type)
+  if (parseError) return sendError(res, new ApiError(...parseError))
+  sendUnexpectedError(res, err)
+}
@@ -0,0 +1,77 @@
+import * as Sentry from '@sentry/node'
+import { InvalidTransitionError, OrderLifecycle } from './orders'
+import { Clock, systemClock } from './simulation'
+import { Store } from './store'
+import { OrderStatus } from './types'
+
+// How long an order sits in each fulfillment status before the simulator moves it on
+export type FulfillmentDelays = { paid: number; picking: number; shipped: number }
+
+const NEXT_STATUS: Record<keyof FulfillmentDelays, OrderStatus> = {
+  paid: 'picking',
+  picking: 'shipped',
+  shipped: 'delivered',
+}
+
+// Orders looked at per status per tick; the rest wait for the next tick
+const BATCH_SIZE = 100
+
+export function getFulfillmentDelays(): FulfillmentDelays {
+  return {
+    paid: Number(process.env.FULFILLMENT_PICKING_DELAY_MS ?? 10_000),
+    picking: Number(process.env.FULFILLMENT_SHIPPING_DELAY_MS ?? 20_000),
+    shipped: Number(process.env.FULFILLMENT_DELIVERY_DELAY_MS ?? 30_000),
+  }
+}
+
+/*
+  Stands in for a warehouse: every tick, paid orders that have waited long enough go to picking,
+  then shipped, then delivered. Works from what the store says, so orders picked up before a
+  restart carry on afterwards. Returns a function that stops the simulator.
+*/
+export function startFulfillmentSimulator(
+  store: Store,
+  lifecycle: OrderLifecycle,
+  options: { delays: FulfillmentDelays; tickMs: number; clock?: Clock }
+): () => void {
+  const { clock = systemClock } = options
+  let stopped = false
+  let cancel = () => {}
+
+  async function tick() {
+    const now = clock.now()
+    for (const [status, delayMs] of Object.entries(options.delays) as [keyof FulfillmentDelays, number][]) {
+      // Polling isn't interesting to trace; the transitions below are
+      const { orders } = await Sentry.suppressTracing(() =>
+        store.queryOrders({ status, page: 1, pageSize: BATCH_SIZE, sortField: 'createdAt', sortDir: 'asc' })
+      )
+      for (const order of orders) {
+        if (new Date(order.updatedAt).getTime() + delayMs > now) continue
+        await lifecycle.transition(order.id, NEXT_STATUS[status], 'fulfillment').catch((err) => {
+          // Cancelled or refunded since we looked; nothing to do
+          if (!(err instanceof InvalidTransitionError)) Sentry.captureException(err)
+        })
+      }
+    }
+  }
+
+  // Re-armed once a tick is done, so ticks never overlap; on a virtual clock they follow simulated time
+  function schedule() {
+    cancel = clock.setTimer(
+      () => {
+        tick()
+          .catch((err) => Sentry.captureException(err))
+          .finally(() => {
+            if (!stopped) schedule()
+          })
+      },
+      options.tickMs,
+      { unref: true }
+    )
+  }
+  schedule()
+  return () => {
+    stopped = true
+    cancel()
+  }
+}
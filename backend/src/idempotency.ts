@@ -0,0 +1,93 @@
+import { createHash } from 'node:crypto'
+import { NextFunction, Request, RequestHandler, Response } from 'express'
+import * as Sentry from '@sentry/node'
+import { ApiError, sendError } from './errors'
+import { Clock, systemClock } from './simulation'
+
+type StoredResponse = { status: number; body: unknown }
+
+type Entry = {
+  fingerprint: string
+  // Settles with the first response; requests that arrive while it's in flight wait on it
+  response: Promise<StoredResponse | undefined>
+  expiresAt: number
+}
+
+function fingerprintOf(req: Request): string {
+  return createHash('sha256')
+    .update(`${req.method} ${req.path}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex')
+}
+
+function markReplayed(replayed: boolean) {
+  const active = Sentry.getActiveSpan()
+  if (active) Sentry.getRootSpan(active).setAttribute('idempotency.replayed', replayed)
+}
+
+/*
+  Honors the `Idempotency-Key` request header: the first response for a key is remembered and
+  replayed verbatim for repeats, so a double-click or a network retry can't charge twice.
+  Reusing a key with a different body is rejected with 409. A 5xx is only passed on to repeats
+  already waiting on the first request; it is not remembered, so a retry sent after it gets a fresh
+  attempt. Requests without the header pass straight through.
+*/
+export function idempotency(options: { ttlMs: number; clock?: Clock }): RequestHandler {
+  const { clock = systemClock } = options
+  const entries = new Map<string, Entry>()
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get('Idempotency-Key')
+    if (key === undefined) return next()
+    if (key.length === 0 || key.length > 255) {
+      sendError(res, new ApiError('IDEMPOTENCY_KEY_INVALID', 'Idempotency-Key must be 1-255 characters'))
+      return
+    }
+
+    const now = clock.now()
+    for (const [k, e] of entries) {
+      if (e.expiresAt <= now) entries.delete(k)
+    }
+
+    const fingerprint = fingerprintOf(req)
+    const existing = entries.get(key)
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        sendError(res, new ApiError('IDEMPOTENCY_KEY_REUSED', 'Idempotency-Key was already used with a different request'))
+        return
+      }
+      markReplayed(true)
+      existing.response.then((stored) => {
+        if (!stored) {
+          sendError(
+            res,
+            new ApiError('IDEMPOTENCY_REQUEST_INCOMPLETE', 'Original request for this Idempotency-Key did not complete; retry')
+          )
+          return
+        }
+        res.setHeader('Idempotent-Replayed', 'true')
+        res.status(stored.status).json(stored.body)
+      })
+      return
+    }
+
+    let settle!: (stored: StoredResponse | undefined) => void
+    entries.set(key, {
+      fingerprint,
+      response: new Promise((resolve) => (settle = resolve)),
+      expiresAt: now + options.ttlMs,
+    })
+    markReplayed(false)
+
+    let captured: StoredResponse | undefined
+    const json = res.json.bind(res)
+    res.json = (body: unknown) => {
+      captured = { status: res.statusCode, body }
+      return json(body)
+    }
+    res.on('close', () => {
+      if (!captured || captured.status >= 500) entries.delete(key)
+      settle(captured)
+    })
+    next()
+  }
+}
@@ -1,9 +1,40 @@
 import * as Sentry from '@sentry/node'
+import { ConfigError, sampleRateFor } from '../../contract/src'
+import { loadSentryConfig, SentryConfig } from './config'
+
+function loadConfigOrExit(): SentryConfig {
+  try {
+    return loadSentryConfig()
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err
+    process.stderr.write(`${err.message}\n`)
+    process.exit(1)
+  }
+}
+
+const config = loadConfigOrExit()
+
+// The path of an incoming request (`/api/checkout?x=1` or a full URL), without its query string
+function pathOf(target: unknown): string | undefined {
+  return typeof target === 'string' ? new URL(target, 'http://localhost').pathname : undefined
+}
 
 // Initialize Sentry for Node
 Sentry.init({
-    dsn: process.env.SENTRY_DSN,
-    tracesSampleRate: 1.0,
-    debug: true,
-  })
-  
\ No newline at end of file
+  dsn: config.dsn,
+  environment: config.environment,
+  release: config.release,
+  debug: config.debug,
+  // An explicit rule wins over the caller's decision (e.g. always keep checkouts); anything else
+  // follows the frontend's decision so distributed traces stay whole
+  tracesSampler: ({ attributes, normalizedRequest, inheritOrSampleWith }) => {
+    const rate = sampleRateFor(config.tracesSamplerRules, {
+      method: String(attributes?.['http.method'] ?? normalizedRequest?.method ?? ''),
+      path: pathOf(attributes?.['http.target'] ?? normalizedRequest?.url),
+      op: typeof attributes?.['sentry.op'] === 'string' ? attributes['sentry.op'] : undefined,
+    })
+    return rate ?? inheritOrSampleWith(config.tracesSampleRate)
+  },
+  // Backs logger.ts: every structured log line is sent to Sentry too
+  enableLogs: true,
+})
@@ -0,0 +1,137 @@
+import { Clock, systemClock } from './simulation'
+import { Store } from './store'
+
+export type ReservationLine = { productId: string; quantity: number }
+
+export type Reservation = {
+  id: string
+  lines: ReservationLine[]
+  expiresAt: number
+}
+
+export class OutOfStockError extends Error {
+  constructor(
+    readonly productId: string,
+    readonly productName: string,
+    readonly requested: number,
+    readonly available: number
+  ) {
+    super(`Out of stock: ${productName}`)
+    this.name = 'OutOfStockError'
+  }
+}
+
+export type Inventory = {
+  // Units that can still be reserved, per product id (on hand minus live reservations)
+  availability(): Promise<Record<string, number>>
+  // Holds stock for a cart until it is committed, released, or the TTL runs out
+  reserve(lines: ReservationLine[], names: Record<string, string>): Promise<Reservation>
+  // Turns held units into sold units; still applies if the reservation has already expired
+  commit(reservation: Reservation): Promise<void>
+  release(reservation: Reservation): void
+  // Puts sold units back on hand, e.g. for an order cancelled before it shipped
+  restock(lines: ReservationLine[]): Promise<void>
+  // Sets units on hand outright, e.g. back to the seed levels; live reservations keep their hold
+  reset(stock: Record<string, number>): Promise<void>
+}
+
+/*
+  Stock on hand is persisted through the store; reservations only live in this process.
+  A reservation that is neither committed nor released (e.g. the process stalls mid-payment)
+  stops counting against availability once it expires.
+*/
+export function createInventory(store: Store, options: { ttlMs: number; clock?: Clock }): Inventory {
+  const { clock = systemClock } = options
+  const reservations = new Map<string, Reservation>()
+  let onHand: Promise<Map<string, number>> | undefined
+  let seq = 0
+
+  // Loaded once and kept in memory so check-and-reserve can't interleave with another request
+  function loadOnHand() {
+    onHand ??= store.listStock().then((stock) => new Map(Object.entries(stock)))
+    return onHand
+  }
+
+  function reservedUnits(): Map<string, number> {
+    const now = clock.now()
+    const reserved = new Map<string, number>()
+    for (const r of reservations.values()) {
+      if (r.expiresAt <= now) {
+        reservations.delete(r.id)
+        continue
+      }
+      for (const line of r.lines) {
+        reserved.set(line.productId, (reserved.get(line.productId) ?? 0) + line.quantity)
+      }
+    }
+    return reserved
+  }
+
+  return {
+    async availability() {
+      const stock = await loadOnHand()
+      const reserved = reservedUnits()
+      const result: Record<string, number> = {}
+      for (const [productId, units] of stock) {
+        result[productId] = Math.max(0, units - (reserved.get(productId) ?? 0))
+      }
+      return result
+    },
+
+    async reserve(lines, names) {
+      const stock = await loadOnHand()
+      const reserved = reservedUnits()
+      const wanted = new Map<string, number>()
+      for (const line of lines) {
+        wanted.set(line.productId, (wanted.get(line.productId) ?? 0) + line.quantity)
+      }
+      for (const [productId, quantity] of wanted) {
+        const available = Math.max(0, (stock.get(productId) ?? 0) - (reserved.get(productId) ?? 0))
+        if (quantity > available) {
+          throw new OutOfStockError(productId, names[productId] ?? productId, quantity, available)
+        }
+      }
+      const reservation: Reservation = {
+        id: `res_${++seq}`,
+        lines: Array.from(wanted, ([productId, quantity]) => ({ productId, quantity })),
+        expiresAt: clock.now() + options.ttlMs,
+      }
+      reservations.set(reservation.id, reservation)
+      return reservation
+    },
+
+    async commit(reservation) {
+      const stock = await loadOnHand()
+      reservations.delete(reservation.id)
+      const writes = reservation.lines.map((line) => {
+        const units = Math.max(0, (stock.get(line.productId) ?? 0) - line.quantity)
+        stock.set(line.productId, units)
+        return store.saveStock(line.productId, units)
+      })
+      await Promise.all(writes)
+    },
+
+    release(reservation) {
+      reservations.delete(reservation.id)
+    },
+
+    async restock(lines) {
+      const stock = await loadOnHand()
+      const writes = lines.map((line) => {
+        const units = (stock.get(line.productId) ?? 0) + line.quantity
+        stock.set(line.productId, units)
+        return store.saveStock(line.productId, units)
+      })
+      await Promise.all(writes)
+    },
+
+    async reset(levels) {
+      const stock = await loadOnHand()
+      const writes = Object.entries(levels).map(([productId, units]) => {
+        stock.set(productId, units)
+        return store.saveStock(productId, units)
+      })
+      await Promise.all(writes)
+    },
+  }
+}
@@ -0,0 +1,15 @@
+// Runs async steps that share a key one at a time, in call order; different keys run in parallel
+export function createKeyedLock() {
+  const tails = new Map<string, Promise<unknown>>()
+
+  return function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const prev = tails.get(key) ?? Promise.resolve()
+    const next = prev.then(fn, fn)
+    const settled = next.catch(() => {})
+    tails.set(key, settled)
+    settled.then(() => {
+      if (tails.get(key) === settled) tails.delete(key)
+    })
+    return next
+  }
+}
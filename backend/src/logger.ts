@@ -0,0 +1,125 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'node:crypto'
+import { Request, RequestHandler } from 'express'
+import * as Sentry from '@sentry/node'
+
+/*
+  Structured logging: one JSON object per line (warnings and errors on stderr), stamped with the request id and the
+  active trace and span ids, and sent to Sentry's logs API as well. Configured with
+    LOG_LEVEL              debug | info (default) | warn | error
+    LOG_BODY_SAMPLE_RATE   share of requests whose parsed body is logged, free text redacted (default 0)
+    LOG_REDACT_HEADERS     extra header names to redact, comma-separated
+*/
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 } as const
+export type LogLevel = keyof typeof LEVELS
+
+type Attributes = Record<string, unknown>
+
+// Values that would let someone replay a session or forge a call never reach the logs
+const REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'baggage', 'webhook-signature']
+
+// Free text a shopper typed (promo codes, refund and cancellation reasons) stays out of sampled bodies
+const REDACTED_BODY_FIELDS = new Set(['code', 'promoCode', 'reason'])
+
+function getLogLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL
+  return (Object.keys(LEVELS) as LogLevel[]).find((l) => l === level) ?? 'info'
+}
+
+function getBodySampleRate(): number {
+  const rate = Number(process.env.LOG_BODY_SAMPLE_RATE ?? 0)
+  return Number.isFinite(rate) ? Math.min(Math.max(rate, 0), 1) : 0
+}
+
+function getRedactedHeaders(): Set<string> {
+  const extra = (process.env.LOG_REDACT_HEADERS ?? '').split(',').map((h) => h.trim().toLowerCase())
+  return new Set([...REDACTED_HEADERS, ...extra.filter(Boolean)])
+}
+
+const minLevel = LEVELS[getLogLevel()]
+const bodySampleRate = getBodySampleRate()
+const redactedHeaders = getRedactedHeaders()
+
+// What every line logged while handling a request is stamped with
+type RequestContext = { requestId: string; span?: Sentry.Span }
+
+const requestContext = new AsyncLocalStorage<RequestContext>()
+
+function write(level: LogLevel, message: string, attributes: Attributes = {}) {
+  if (LEVELS[level] < minLevel) return
+  const context = requestContext.getStore()
+  const span = Sentry.getActiveSpan() ?? context?.span
+  const ids = span?.spanContext()
+  const line = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    requestId: context?.requestId,
+    traceId: ids?.traceId,
+    spanId: ids?.spanId,
+    ...attributes,
+  }
+  ;(LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${JSON.stringify(line)}\n`)
+
+  const send = () => Sentry.logger[level](message, { ...attributes, requestId: context?.requestId })
+  // Lines logged after the request's span ended (e.g. on `finish`) still belong to its trace
+  if (span && !Sentry.getActiveSpan()) Sentry.withActiveSpan(span, send)
+  else send()
+}
+
+export const logger = {
+  debug: (message: string, attributes?: Attributes) => write('debug', message, attributes),
+  info: (message: string, attributes?: Attributes) => write('info', message, attributes),
+  warn: (message: string, attributes?: Attributes) => write('warn', message, attributes),
+  error: (message: string, attributes?: Attributes) => write('error', message, attributes),
+}
+
+function redactHeaders(headers: Request['headers']): Record<string, string | string[] | undefined> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, redactedHeaders.has(name) ? '[redacted]' : value])
+  )
+}
+
+function redactBody(body: unknown): unknown {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return body
+  return Object.fromEntries(
+    Object.entries(body).map(([field, value]) => [field, REDACTED_BODY_FIELDS.has(field) ? '[redacted]' : value])
+  )
+}
+
+/*
+  Gives each request an id (the caller's `X-Request-Id`, else a fresh one) and echoes it back,
+  then logs one line per request once the response is sent. The id goes on log lines only: as a
+  span attribute every request would add a new value. Headers (redacted) are logged at debug
+  level; bodies (free text redacted) only for a sample of requests.
+*/
+export function requestLogger(): RequestHandler {
+  return (req, res, next) => {
+    const header = req.get('X-Request-Id')
+    const requestId = header && header.length <= 128 ? header : randomUUID()
+    res.setHeader('X-Request-Id', requestId)
+    const active = Sentry.getActiveSpan()
+    const span = active && Sentry.getRootSpan(active)
+
+    const context: RequestContext = { requestId, span }
+    const startedAt = performance.now()
+    const logBody = Math.random() < bodySampleRate
+
+    res.on('finish', () =>
+      requestContext.run(context, () => {
+        const status = res.statusCode
+        const level: LogLevel = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info'
+        write(level, `${req.method} ${req.originalUrl} ${status}`, {
+          method: req.method,
+          path: req.path,
+          status,
+          durationMs: Math.round(performance.now() - startedAt),
+          ...(minLevel <= LEVELS.debug ? { headers: redactHeaders(req.headers) } : {}),
+          ...(logBody && req.body !== undefined ? { body: redactBody(req.body) } : {}),
+        })
+      })
+    )
+    requestContext.run(context, next)
+  }
+}
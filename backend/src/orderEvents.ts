@@ -0,0 +1,26 @@
+import { EventEmitter } from 'node:events'
+import { Store } from './store'
+import { Order } from './types'
+
+// In-process fan-out of saved orders to whoever is following them (e.g. SSE streams)
+const emitter = new EventEmitter()
+// One listener per open stream; there is no sensible cap
+emitter.setMaxListeners(0)
+
+export function subscribeToOrder(orderId: string, listener: (order: Order) => void): () => void {
+  emitter.on(orderId, listener)
+  return () => {
+    emitter.off(orderId, listener)
+  }
+}
+
+// Wraps a store so every saved order is published, whichever code path saved it
+export function publishingOrders(store: Store): Store {
+  return {
+    ...store,
+    async saveOrder(order) {
+      await store.saveOrder(order)
+      emitter.emit(order.id, order)
+    },
+  }
+}
@@ -0,0 +1,110 @@
+import * as Sentry from '@sentry/node'
+import { createKeyedLock } from './locks'
+import { Clock, systemClock } from './simulation'
+import { Store } from './store'
+import { Order, OrderStatus } from './types'
+
+// Where an order may go from each status; statuses with no entries are terminal
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending_payment: ['paid', 'failed', 'cancelled'],
+  paid: ['picking', 'cancelled', 'refunded'],
+  picking: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: [],
+  failed: [],
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    readonly orderId: string,
+    readonly from: OrderStatus,
+    readonly to: OrderStatus
+  ) {
+    super(`Order ${orderId} can't go from ${from} to ${to}`)
+    this.name = 'InvalidTransitionError'
+  }
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to)
+}
+
+// The order moved to `to`, with the move recorded in its history. Pure: nothing is saved.
+export function transitionOrder(order: Order, to: OrderStatus, reason?: string, now = new Date()): Order {
+  if (!canTransition(order.status, to)) throw new InvalidTransitionError(order.id, order.status, to)
+  const at = now.toISOString()
+  return {
+    ...order,
+    status: to,
+    history: [...order.history, { from: order.status, to, at, ...(reason ? { reason } : {}) }],
+    updatedAt: at,
+  }
+}
+
+// Serializes read-modify-write steps on one order (transitions, refunds)
+export const withOrderLock = createKeyedLock()
+
+export type OrderLifecycle = {
+  // Moves a stored order on; resolves undefined for an unknown order, throws InvalidTransitionError
+  transition(orderId: string, to: OrderStatus, reason?: string): Promise<Order | undefined>
+  // The same for an order the caller has just read and still holds withOrderLock for
+  transitionLocked(order: Order, to: OrderStatus, reason?: string): Promise<Order>
+}
+
+// Points a span at the checkout that created the order, which usually lives in another trace
+export function linkToCheckout(span: Sentry.Span, order: Order) {
+  if (order.checkoutTrace) {
+    span.addLink({ context: { ...order.checkoutTrace, traceFlags: 1 }, attributes: { 'sentry.link.type': 'checkout' } })
+  }
+}
+
+/*
+  Transitions that happen after checkout (fulfillment, cancellation, refunds) are traced as an
+  `Order Transition` span linked to the checkout span that created the order. Outside a request
+  (e.g. the fulfillment simulator) that span starts its own trace.
+*/
+export function createOrderLifecycle(store: Store, clock: Clock = systemClock): OrderLifecycle {
+  function traced<T>(
+    orderId: string,
+    to: OrderStatus,
+    reason: string | undefined,
+    fn: (span: Sentry.Span) => Promise<T>
+  ) {
+    const run = () =>
+      Sentry.startSpan(
+        {
+          name: 'Order Transition',
+          op: 'commerce.order.transition',
+          forceTransaction: true,
+          attributes: { 'order.id': orderId, 'order.status_to': to, 'order.transition_reason': reason },
+        },
+        fn
+      )
+    return Sentry.getActiveSpan() ? run() : Sentry.startNewTrace(run)
+  }
+
+  async function apply(span: Sentry.Span, order: Order, to: OrderStatus, reason: string | undefined) {
+    span.setAttribute('order.status_from', order.status)
+    linkToCheckout(span, order)
+    const next = transitionOrder(order, to, reason, new Date(clock.now()))
+    await store.saveOrder(next)
+    return next
+  }
+
+  return {
+    transition(orderId, to, reason) {
+      return traced(orderId, to, reason, (span) =>
+        withOrderLock(orderId, async () => {
+          const order = await store.getOrder(orderId)
+          if (!order) return undefined
+          return apply(span, order, to, reason)
+        })
+      )
+    },
+    transitionLocked(order, to, reason) {
+      return traced(order.id, to, reason, (span) => apply(span, order, to, reason))
+    },
+  }
+}
@@ -0,0 +1,242 @@
+import { SPAN_STATUS_ERROR } from '@sentry/core'
+import * as Sentry from '@sentry/node'
+import type { ProviderConfig } from '../../contract/src'
+import { applyChaos } from './chaos'
+import { liveSimulation, Rng, Simulation, sleep } from './simulation'
+import { PAYMENT_PROVIDERS, PaymentProvider } from './types'
+
+export function pickPaymentProvider(rng: Rng = Math.random): PaymentProvider {
+  const idx = Math.floor(rng() * PAYMENT_PROVIDERS.length)
+  return PAYMENT_PROVIDERS[idx]
+}
+
+export type { ProviderConfig } from '../../contract/src'
+
+function getDefaultConfig(provider: PaymentProvider): ProviderConfig {
+  // Sensible defaults for demo purposes; can be overridden via env
+  switch (provider) {
+    case 'ZapPay':
+      return { minMs: 50, maxMs: 150, failureRate: 0.05 }
+    case 'GlitchPay':
+      return { minMs: 200, maxMs: 1200, failureRate: 0.3 }
+    case 'LagPay':
+      return { minMs: 1200, maxMs: 3000, failureRate: 0.1 }
+  }
+}
+
+// e.g. GlitchPay -> GLITCHPAY, used as PAYMENT_<KEY>_* env var prefix
+function envKey(provider: PaymentProvider): string {
+  return provider.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+// Values set at runtime through the API; they win over env until reset
+const overrides = new Map<PaymentProvider, ProviderConfig>()
+
+// Env (or built-in default) config, ignoring runtime overrides
+function getBaseConfig(provider: PaymentProvider): ProviderConfig {
+  const keyBase = envKey(provider)
+  const defaults = getDefaultConfig(provider)
+  const min = Number(process.env[`PAYMENT_${keyBase}_MIN_MS` as keyof NodeJS.ProcessEnv] ?? defaults.minMs)
+  const max = Number(process.env[`PAYMENT_${keyBase}_MAX_MS` as keyof NodeJS.ProcessEnv] ?? defaults.maxMs)
+  const failureRate = Number(
+    process.env[`PAYMENT_${keyBase}_FAILURE_RATE` as keyof NodeJS.ProcessEnv] ?? defaults.failureRate
+  )
+  return { minMs: min, maxMs: max, failureRate }
+}
+
+export function getProviderConfig(provider: PaymentProvider): ProviderConfig {
+  return overrides.get(provider) ?? getBaseConfig(provider)
+}
+
+// Applies from the next charge on; in-flight charges keep the config they started with
+export function setProviderConfig(provider: PaymentProvider, cfg: ProviderConfig) {
+  overrides.set(provider, cfg)
+}
+
+export function resetProviderConfig(provider?: PaymentProvider) {
+  if (provider) overrides.delete(provider)
+  else overrides.clear()
+}
+
+export function getAllProviderConfigs(): Record<PaymentProvider, ProviderConfig> {
+  return {
+    ZapPay: getProviderConfig('ZapPay'),
+    GlitchPay: getProviderConfig('GlitchPay'),
+    LagPay: getProviderConfig('LagPay'),
+  }
+}
+
+export type ChargeResult = {
+  provider: PaymentProvider
+  // `timeout`: we stopped waiting for the provider (see PAYMENT_TIMEOUT_MS)
+  status: 'success' | 'failed' | 'timeout'
+  latencyMs: number
+  // Chaos scenario phase the charge ran under, if a scenario is loaded
+  chaosPhase: string | null
+}
+
+// Raised when a provider blows up instead of declining, e.g. during a chaos scenario
+export class PaymentProviderError extends Error {
+  constructor(readonly provider: PaymentProvider, message: string) {
+    super(message)
+    this.name = 'PaymentProviderError'
+  }
+}
+
+// One simulated provider round-trip: latency and outcome come from `base` with any chaos applied
+async function simulateProviderCall(
+  provider: PaymentProvider,
+  base: ProviderConfig,
+  { rng, clock }: Simulation
+): Promise<ChargeResult> {
+  const { config: cfg, throwRate, phase } = applyChaos(provider, base, clock.now())
+  const min = Math.max(0, cfg.minMs)
+  const max = Math.max(min, cfg.maxMs)
+  const latency = Math.floor(rng() * (max - min + 1)) + min
+
+  const start = clock.now()
+  await sleep(latency, clock)
+  const measured = clock.now() - start
+
+  if (rng() < throwRate) {
+    throw new PaymentProviderError(provider, `${provider} connection reset by peer`)
+  }
+
+  const failureRate = Math.min(Math.max(cfg.failureRate, 0), 1)
+  const failed = rng() < failureRate
+  return { provider, status: failed ? 'failed' : 'success', latencyMs: measured, chaosPhase: phase }
+}
+
+export async function fakeCharge(
+  amountMinor: number,
+  provider: PaymentProvider,
+  simulation: Simulation = liveSimulation
+): Promise<ChargeResult> {
+  return simulateProviderCall(provider, getProviderConfig(provider), simulation)
+}
+
+// Refunds are slower than charges but half as likely to be declined; derived from the charge config
+// so the control panel sliders move both
+export function getRefundConfig(provider: PaymentProvider): ProviderConfig {
+  const cfg = getProviderConfig(provider)
+  return { minMs: cfg.minMs * 2, maxMs: cfg.maxMs * 2, failureRate: cfg.failureRate / 2 }
+}
+
+export async function fakeRefund(
+  amountMinor: number,
+  provider: PaymentProvider,
+  simulation: Simulation = liveSimulation
+): Promise<ChargeResult> {
+  return simulateProviderCall(provider, getRefundConfig(provider), simulation)
+}
+
+export type FailoverPolicy = {
+  // Extra attempts on the requested provider before falling back
+  retries: number
+  // Providers tried once each, in order, after the retries are used up
+  fallback: PaymentProvider[]
+  // Delay before the 2nd attempt; doubles for every attempt after that
+  backoffMs: number
+}
+
+/*
+  Read per requested provider from env, e.g. "retry GlitchPay once, then fall back to ZapPay":
+    PAYMENT_GLITCHPAY_RETRIES=1
+    PAYMENT_GLITCHPAY_FALLBACK=ZapPay
+  Defaults to a single attempt with no fallback.
+*/
+export function getFailoverPolicy(provider: PaymentProvider): FailoverPolicy {
+  const keyBase = envKey(provider)
+  const retries = Math.max(0, Math.floor(Number(process.env[`PAYMENT_${keyBase}_RETRIES`] ?? 0)) || 0)
+  const fallback = (process.env[`PAYMENT_${keyBase}_FALLBACK`] ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name): name is PaymentProvider => PAYMENT_PROVIDERS.some((p) => p === name) && name !== provider)
+  const backoffMs = Math.max(0, Number(process.env.PAYMENT_RETRY_BACKOFF_MS ?? 100) || 0)
+  return { retries, fallback, backoffMs }
+}
+
+// How long checkout waits on a single charge attempt before treating it as timed out
+export function getChargeTimeoutMs(): number {
+  return Math.max(0, Number(process.env.PAYMENT_TIMEOUT_MS ?? 10_000) || 0)
+}
+
+// Resolves with a `timeout` result if the provider hasn't answered in time. The simulated charge
+// keeps running and its outcome is dropped, so a timed-out attempt never takes the money.
+async function chargeWithTimeout(
+  amountMinor: number,
+  provider: PaymentProvider,
+  simulation: Simulation
+): Promise<ChargeResult> {
+  const timeoutMs = getChargeTimeoutMs()
+  let cancel: (() => void) | undefined
+  const timedOut = new Promise<ChargeResult>((resolve) => {
+    cancel = simulation.clock.setTimer(
+      () => resolve({ provider, status: 'timeout', latencyMs: timeoutMs, chaosPhase: null }),
+      timeoutMs
+    )
+  })
+  try {
+    return await Promise.race([fakeCharge(amountMinor, provider, simulation), timedOut])
+  } finally {
+    cancel?.()
+  }
+}
+
+export type FailoverResult = ChargeResult & {
+  requestedProvider: PaymentProvider
+  attempts: number
+}
+
+// Charges following the requested provider's failover policy. Every attempt gets its own
+// `commerce.payment` span so retries and fallbacks can be counted in span metrics. A provider that
+// throws is treated like a decline; the PaymentProviderError only escapes from the last attempt.
+export async function chargeWithFailover(
+  amountMinor: number,
+  requestedProvider: PaymentProvider,
+  simulation: Simulation = liveSimulation
+): Promise<FailoverResult> {
+  const policy = getFailoverPolicy(requestedProvider)
+  const plan: PaymentProvider[] = [
+    ...Array.from({ length: policy.retries + 1 }, () => requestedProvider),
+    ...policy.fallback,
+  ]
+
+  // Every pass returns or throws on the last attempt, so the loop never runs past the plan
+  for (let attempt = 1; ; attempt++) {
+    const provider = plan[attempt - 1]
+    const last = attempt === plan.length
+    if (attempt > 1) await sleep(policy.backoffMs * 2 ** (attempt - 2), simulation.clock)
+    const outcome = await Sentry.startSpan(
+      {
+        name: `Charge ${provider}`,
+        op: 'commerce.payment',
+        attributes: {
+          'payment.provider': provider,
+          'payment.attempt': attempt,
+          'payment.failover': provider !== requestedProvider,
+        },
+      },
+      async (paymentSpan) => {
+        try {
+          const charge = await chargeWithTimeout(amountMinor, provider, simulation)
+          paymentSpan.setAttribute('payment.status', charge.status)
+          paymentSpan.setAttribute('payment.latency_ms', charge.latencyMs)
+          if (charge.chaosPhase) paymentSpan.setAttribute('chaos.phase', charge.chaosPhase)
+          return charge
+        } catch (err) {
+          if (!(err instanceof PaymentProviderError)) throw err
+          // A provider that blew up took no money, so the attempt counts as failed and the plan goes on
+          paymentSpan.setStatus({ code: SPAN_STATUS_ERROR, message: 'internal_error' })
+          paymentSpan.setAttribute('payment.status', 'failed')
+          return err
+        }
+      }
+    )
+    if (outcome instanceof PaymentProviderError) {
+      if (last) throw outcome
+      continue
+    }
+    if (outcome.status === 'success' || last) return { ...outcome, requestedProvider, attempts: attempt }
+  }
+}
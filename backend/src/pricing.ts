@@ -0,0 +1,107 @@
+import type { Region, ShippingMethod } from '../../contract/src'
+import { convertMinor, Currency } from './currency'
+import { AppliedPromotion } from './promotions'
+import { randomId, Rng } from './simulation'
+import { OrderLine } from './types'
+
+export type { Region, ShippingMethod } from '../../contract/src'
+
+// Flat, illustrative sales tax / VAT per region, applied to the discounted merchandise total
+export const TAX_RATES: Record<Region, number> = {
+  US: 0.08,
+  EU: 0.2,
+  UK: 0.2,
+  JP: 0.1,
+}
+
+// Where a shopper paying in this currency most likely ships to, when they don't say
+export const DEFAULT_REGION: Record<Currency, Region> = {
+  USD: 'US',
+  EUR: 'EU',
+  GBP: 'UK',
+  JPY: 'JP',
+}
+
+// Prices in BASE_CURRENCY minor units; standard ships free above `freeOverMinor`
+const SHIPPING_METHODS: Record<ShippingMethod, { label: string; priceMinor: number; etaDays: number; freeOverMinor?: number }> = {
+  standard: { label: 'Standard', priceMinor: 499, etaDays: 5, freeOverMinor: 5000 },
+  express: { label: 'Express', priceMinor: 1499, etaDays: 2 },
+  overnight: { label: 'Overnight', priceMinor: 2999, etaDays: 1 },
+}
+
+export type ShippingOption = { id: ShippingMethod; label: string; amountMinor: number; etaDays: number }
+
+export type Quote = {
+  id: string
+  currency: Currency
+  region: Region
+  shippingMethod: ShippingMethod
+  shippingOptions: ShippingOption[]
+  subtotalMinor: number
+  discountMinor: number
+  shippingMinor: number
+  taxRate: number
+  taxMinor: number
+  totalMinor: number
+  expiresAt: string
+}
+
+// How long a quote can back a checkout before the shopper has to re-quote
+const QUOTE_TTL_MS = 15 * 60 * 1000
+
+const quotes = new Map<string, Quote>()
+
+// Full price breakdown for a priced cart. Pure: nothing is stored.
+export function buildQuote(
+  cart: { currency: Currency; lines: OrderLine[]; subtotalMinor: number },
+  promotion: AppliedPromotion | undefined,
+  options: { region: Region; shippingMethod: ShippingMethod },
+  now = Date.now()
+): Omit<Quote, 'id'> {
+  const { currency } = cart
+  const discountMinor = promotion?.discountMinor ?? 0
+  const merchandiseMinor = cart.subtotalMinor - discountMinor
+
+  const shippingOptions = (Object.keys(SHIPPING_METHODS) as ShippingMethod[]).map((id): ShippingOption => {
+    const method = SHIPPING_METHODS[id]
+    const free = method.freeOverMinor !== undefined && merchandiseMinor >= convertMinor(method.freeOverMinor, currency)
+    return { id, label: method.label, amountMinor: free ? 0 : convertMinor(method.priceMinor, currency), etaDays: method.etaDays }
+  })
+  const shippingMinor = shippingOptions.find((o) => o.id === options.shippingMethod)!.amountMinor
+
+  const taxRate = TAX_RATES[options.region]
+  const taxMinor = Math.round(merchandiseMinor * taxRate)
+
+  return {
+    currency,
+    region: options.region,
+    shippingMethod: options.shippingMethod,
+    shippingOptions,
+    subtotalMinor: cart.subtotalMinor,
+    discountMinor,
+    shippingMinor,
+    taxRate,
+    taxMinor,
+    totalMinor: merchandiseMinor + shippingMinor + taxMinor,
+    expiresAt: new Date(now + QUOTE_TTL_MS).toISOString(),
+  }
+}
+
+// Remembers a quote so checkout can check it is still what the shopper would pay
+export function saveQuote(quote: Omit<Quote, 'id'>, now = Date.now(), rng: Rng = Math.random): Quote {
+  for (const [id, q] of quotes) {
+    if (new Date(q.expiresAt).getTime() <= now) quotes.delete(id)
+  }
+  const saved = { id: randomId('quote', rng), ...quote }
+  quotes.set(saved.id, saved)
+  return saved
+}
+
+export function clearQuotes() {
+  quotes.clear()
+}
+
+export function getQuote(id: string, now = Date.now()): Quote | undefined {
+  const quote = quotes.get(id)
+  return quote && new Date(quote.expiresAt).getTime() > now ? quote : undefined
+}
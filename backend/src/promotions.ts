@@ -0,0 +1,136 @@
+import { convertMinor, Currency } from './currency'
+import { OrderLine } from './types'
+
+export type PromotionType = 'percentage' | 'fixed_amount' | 'buy_x_get_y'
+
+export type Promotion = {
+  code: string
+  description: string
+  type: PromotionType
+  // percentage: share off in percent
+  percentOff?: number
+  // fixed_amount: BASE_CURRENCY minor units off, converted to the cart's currency
+  amountOffMinor?: number
+  // buy_x_get_y: for every `buyQuantity` units of an eligible product, `freeQuantity` more are free
+  buyQuantity?: number
+  freeQuantity?: number
+  // Only these products count towards (and get) the discount; all products when unset
+  productIds?: string[]
+  // Cart subtotal (BASE_CURRENCY minor units) required before the code applies
+  minSubtotalMinor?: number
+  expiresAt?: string
+  // Successful checkouts allowed for this code across all shoppers
+  usageLimit?: number
+}
+
+export const PROMOTIONS: Promotion[] = [
+  { code: 'WELCOME10', description: '10% off your order', type: 'percentage', percentOff: 10 },
+  {
+    code: 'SAVE5',
+    description: '$5 off orders over $30',
+    type: 'fixed_amount',
+    amountOffMinor: 500,
+    minSubtotalMinor: 3000,
+  },
+  {
+    code: 'SEGFAULT20',
+    description: '20% off Segmentation Fault',
+    type: 'percentage',
+    percentOff: 20,
+    productIds: ['segfault'],
+  },
+  {
+    code: 'NPE3FOR2',
+    description: 'Buy 2 NullPointerExceptions, get 1 free',
+    type: 'buy_x_get_y',
+    buyQuantity: 2,
+    freeQuantity: 1,
+    productIds: ['npe'],
+  },
+  { code: 'FIRST100', description: '25% off for the first 100 orders', type: 'percentage', percentOff: 25, usageLimit: 100 },
+  { code: 'LAUNCH50', description: '50% off launch week', type: 'percentage', percentOff: 50, expiresAt: '2024-12-31T23:59:59Z' },
+]
+
+export class PromotionError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message)
+    this.name = 'PromotionError'
+  }
+}
+
+export type AppliedPromotion = {
+  code: string
+  description: string
+  type: PromotionType
+  discountMinor: number
+}
+
+// Successful redemptions per code. Process-local: usage counts start over on restart.
+const redemptions = new Map<string, number>()
+
+function findPromotion(code: string): Promotion {
+  const promo = PROMOTIONS.find((p) => p.code === code.trim().toUpperCase())
+  if (!promo) throw new PromotionError(code, `Unknown promo code: ${code}`)
+  return promo
+}
+
+function discountFor(promo: Promotion, eligible: OrderLine[], currency: Currency): number {
+  const eligibleMinor = eligible.reduce((sum, l) => sum + l.lineTotalMinor, 0)
+  switch (promo.type) {
+    case 'percentage':
+      return Math.round((eligibleMinor * (promo.percentOff ?? 0)) / 100)
+    case 'fixed_amount':
+      return Math.min(eligibleMinor, convertMinor(promo.amountOffMinor ?? 0, currency))
+    case 'buy_x_get_y': {
+      const buy = promo.buyQuantity ?? 1
+      const free = promo.freeQuantity ?? 0
+      return eligible.reduce((sum, l) => sum + Math.floor(l.quantity / (buy + free)) * free * l.unitPriceMinor, 0)
+    }
+  }
+}
+
+/*
+  Prices a promo code against an already-priced cart. Throws PromotionError with a
+  shopper-facing message when the code doesn't exist, has expired, is used up, or the cart
+  doesn't meet its conditions.
+*/
+export function applyPromotion(code: string, lines: OrderLine[], currency: Currency, now = new Date()): AppliedPromotion {
+  const promo = findPromotion(code)
+  if (promo.expiresAt && new Date(promo.expiresAt) <= now) {
+    throw new PromotionError(promo.code, `Promo code ${promo.code} has expired`)
+  }
+  if (promo.usageLimit !== undefined && (redemptions.get(promo.code) ?? 0) >= promo.usageLimit) {
+    throw new PromotionError(promo.code, `Promo code ${promo.code} has been fully redeemed`)
+  }
+  const subtotalMinor = lines.reduce((sum, l) => sum + l.lineTotalMinor, 0)
+  if (promo.minSubtotalMinor !== undefined && subtotalMinor < convertMinor(promo.minSubtotalMinor, currency)) {
+    throw new PromotionError(promo.code, `Promo code ${promo.code} needs a larger cart`)
+  }
+  const eligible = promo.productIds ? lines.filter((l) => promo.productIds!.includes(l.productId)) : lines
+  const discountMinor = discountFor(promo, eligible, currency)
+  if (discountMinor <= 0) {
+    throw new PromotionError(promo.code, `Promo code ${promo.code} doesn't apply to this cart`)
+  }
+  return { code: promo.code, description: promo.description, type: promo.type, discountMinor }
+}
+
+// Counts a redemption up front so concurrent checkouts can't overshoot the usage limit.
+// Returns false when the limit was reached since the code was priced.
+export function claimPromotion(code: string): boolean {
+  const promo = findPromotion(code)
+  const used = redemptions.get(promo.code) ?? 0
+  if (promo.usageLimit !== undefined && used >= promo.usageLimit) return false
+  redemptions.set(promo.code, used + 1)
+  return true
+}
+
+// Gives back a claim for a checkout that didn't go through
+export function releasePromotion(code: string) {
+  const used = redemptions.get(code) ?? 0
+  if (used > 0) redemptions.set(code, used - 1)
+}
+
+// Forgets all redemptions; called when a new app is created so runs don't share state
+export function resetPromotionUsage() {
+  redemptions.clear()
+}
@@ -0,0 +1,145 @@
+import * as Sentry from '@sentry/node'
+import { Inventory } from './inventory'
+import { canTransition, linkToCheckout, OrderLifecycle, withOrderLock } from './orders'
+import { fakeRefund } from './payments'
+import { liveSimulation, randomId, Simulation } from './simulation'
+import { Store } from './store'
+import { Order, OrderStatus, Refund } from './types'
+
+// Statuses that mean the money never arrived, so there is nothing to give back
+const UNPAID: OrderStatus[] = ['pending_payment', 'failed']
+
+// Raised when an order's state doesn't allow the refund or cancellation; nothing was changed
+export class OrderActionError extends Error {
+  constructor(
+    readonly orderId: string,
+    readonly reason: 'not_paid' | 'not_refundable' | 'not_cancellable' | 'exceeds_refundable',
+    message: string
+  ) {
+    super(message)
+    this.name = 'OrderActionError'
+  }
+}
+
+export type RefundOutcome = { order: Order; refund?: Refund }
+
+// Sends one refund to the provider that took the payment, traced as a `commerce.refund` span
+async function callProvider(
+  order: Order,
+  amountMinor: number,
+  reason: string | undefined,
+  simulation: Simulation
+): Promise<Refund> {
+  return Sentry.startSpan(
+    {
+      name: `Refund ${order.paymentProvider}`,
+      op: 'commerce.refund',
+      attributes: {
+        'order.id': order.id,
+        'payment.provider': order.paymentProvider,
+        'refund.amount_minor': amountMinor,
+        'refund.partial': order.refundedMinor + amountMinor < order.totalMinor,
+        'cart.currency': order.currency,
+      },
+    },
+    async (span) => {
+      linkToCheckout(span, order)
+      const result = await fakeRefund(amountMinor, order.paymentProvider, simulation)
+      span.setAttribute('refund.status', result.status)
+      span.setAttribute('refund.latency_ms', result.latencyMs)
+      if (result.chaosPhase) span.setAttribute('chaos.phase', result.chaosPhase)
+      return {
+        id: randomId('rf', simulation.rng),
+        amountMinor,
+        provider: order.paymentProvider,
+        status: result.status === 'success' ? 'succeeded' : 'failed',
+        ...(reason ? { reason } : {}),
+        createdAt: new Date(simulation.clock.now()).toISOString(),
+      }
+    }
+  )
+}
+
+function withRefund(order: Order, refund: Refund): Order {
+  const refundedMinor = order.refundedMinor + (refund.status === 'succeeded' ? refund.amountMinor : 0)
+  return { ...order, refundedMinor, refunds: [...order.refunds, refund], updatedAt: refund.createdAt }
+}
+
+/*
+  Refunds part or all of a paid order through its payment provider. `amountMinor` defaults to
+  everything not refunded yet; once the whole total is back the order moves to `refunded`.
+  A declined refund is recorded on the order and returned with status `failed`.
+  Resolves undefined for an unknown order.
+*/
+export function refundOrder(
+  store: Store,
+  lifecycle: OrderLifecycle,
+  orderId: string,
+  amountMinor: number | undefined,
+  reason?: string,
+  simulation: Simulation = liveSimulation
+): Promise<RefundOutcome | undefined> {
+  return withOrderLock(orderId, async () => {
+    const order = await store.getOrder(orderId)
+    if (!order) return undefined
+    if (UNPAID.includes(order.status)) {
+      throw new OrderActionError(orderId, 'not_paid', `Order ${orderId} was never paid, so there is nothing to refund`)
+    }
+    if (!canTransition(order.status, 'refunded')) {
+      throw new OrderActionError(orderId, 'not_refundable', `Order ${orderId} is ${order.status} and can't be refunded`)
+    }
+    const refundableMinor = order.totalMinor - order.refundedMinor
+    const amount = amountMinor ?? refundableMinor
+    if (amount > refundableMinor) {
+      throw new OrderActionError(
+        orderId,
+        'exceeds_refundable',
+        `Refund of ${amount} exceeds the ${refundableMinor} still refundable on order ${orderId}`
+      )
+    }
+
+    const refund = await callProvider(order, amount, reason, simulation)
+    const next = withRefund(order, refund)
+    if (next.refundedMinor < next.totalMinor) {
+      await store.saveOrder(next)
+      return { order: next, refund }
+    }
+    return { order: await lifecycle.transitionLocked(next, 'refunded', reason), refund }
+  })
+}
+
+/*
+  Cancels an order that hasn't shipped. A paid order is refunded in full first and stays as it
+  was if the provider declines; its units go back on hand either way once it is cancelled.
+*/
+export function cancelOrder(
+  store: Store,
+  lifecycle: OrderLifecycle,
+  inventory: Inventory,
+  orderId: string,
+  reason?: string,
+  simulation: Simulation = liveSimulation
+): Promise<RefundOutcome | undefined> {
+  return withOrderLock(orderId, async () => {
+    const order = await store.getOrder(orderId)
+    if (!order) return undefined
+    // A checkout still talking to the provider owns the order until it settles
+    if (order.status === 'pending_payment' || !canTransition(order.status, 'cancelled')) {
+      throw new OrderActionError(orderId, 'not_cancellable', `Order ${orderId} is ${order.status} and can't be cancelled`)
+    }
+
+    let refund: Refund | undefined
+    let next = order
+    const refundableMinor = order.totalMinor - order.refundedMinor
+    if (refundableMinor > 0) {
+      refund = await callProvider(order, refundableMinor, reason ?? 'cancelled', simulation)
+      next = withRefund(order, refund)
+      if (refund.status === 'failed') {
+        await store.saveOrder(next)
+        return { order: next, refund }
+      }
+    }
+    await inventory.restock(order.items)
+    return { order: await lifecycle.transitionLocked(next, 'cancelled', reason), refund }
+  })
+}
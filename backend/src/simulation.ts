@@ -0,0 +1,135 @@
+/*
+  Where the simulation gets its randomness and its time. Normally that is Math.random and the
+  real clock. With SIMULATION_SEED set, both become reproducible:
+  - random numbers come from a generator seeded with SIMULATION_SEED
+  - time is virtual. It starts at SIMULATION_START (default 2025-01-01T00:00:00Z) and jumps
+    straight to the next due timer instead of waiting, so simulated latencies cost no real time
+  The same seed and the same sequence of requests then give the same order ids, providers,
+  latencies, failures and timestamps.
+*/
+
+// A uniform number in [0, 1), like Math.random
+export type Rng = () => number
+
+export type Clock = {
+  // Milliseconds since the epoch
+  now(): number
+  // Runs `callback` after `ms`; returns a function that cancels it. An `unref` timer is background
+  // work: it doesn't keep the process alive, and on a virtual clock it doesn't move time forward
+  setTimer(callback: () => void, ms: number, options?: { unref?: boolean }): () => void
+}
+
+export type Simulation = {
+  rng: Rng
+  clock: Clock
+  // Set when runs are reproducible
+  seed?: string
+}
+
+const DEFAULT_START = Date.parse('2025-01-01T00:00:00Z')
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimer(callback, ms, options) {
+    const timer = setTimeout(callback, ms)
+    if (options?.unref) timer.unref()
+    return () => clearTimeout(timer)
+  },
+}
+
+export const liveSimulation: Simulation = { rng: Math.random, clock: systemClock }
+
+// FNV-1a, so any string works as a seed
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// mulberry32: small, fast and good enough to roll dice for a demo shop
+export function seededRng(seed: string): Rng {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/*
+  Time that only moves when a timer fires. Pending timers fire one at a time, earliest first (ties
+  in the order they were set), each once the work already queued has run. Racing timers (a charge
+  against its timeout) therefore finish in the order their durations say, however busy the machine.
+  Background (`unref`) timers fire when time passes them on the way to another timer, so a
+  recurring job like the fulfillment simulator can't run the clock on its own.
+*/
+export function virtualClock(start: number): Clock {
+  type Timer = { due: number; callback: () => void; unref: boolean }
+  let now = start
+  let seq = 0
+  const timers = new Map<number, Timer>()
+  let scheduled = false
+
+  function fireNext() {
+    scheduled = false
+    if (![...timers.values()].some((t) => !t.unref)) return
+    let next: [number, Timer] | undefined
+    for (const entry of timers) {
+      if (!next || entry[1].due < next[1].due) next = entry
+    }
+    if (!next) return
+    const [id, timer] = next
+    timers.delete(id)
+    now = Math.max(now, timer.due)
+    timer.callback()
+    schedule()
+  }
+
+  function schedule() {
+    if (scheduled || ![...timers.values()].some((t) => !t.unref)) return
+    scheduled = true
+    setImmediate(fireNext)
+  }
+
+  return {
+    now: () => now,
+    setTimer(callback, ms, options) {
+      const id = ++seq
+      timers.set(id, { due: now + Math.max(0, ms), callback, unref: options?.unref ?? false })
+      schedule()
+      return () => {
+        timers.delete(id)
+      }
+    },
+  }
+}
+
+export function seededSimulation(seed: string, start = DEFAULT_START): Simulation {
+  return { rng: seededRng(seed), clock: virtualClock(start), seed }
+}
+
+// Reads SIMULATION_SEED and SIMULATION_START; without a seed everything is live
+export function simulationFromEnv(env: NodeJS.ProcessEnv = process.env): Simulation {
+  const seed = env.SIMULATION_SEED
+  if (!seed) return liveSimulation
+  const start = env.SIMULATION_START ? Date.parse(env.SIMULATION_START) : DEFAULT_START
+  if (Number.isNaN(start)) {
+    throw new Error(`SIMULATION_START must be an ISO 8601 date, got "${env.SIMULATION_START}"`)
+  }
+  return seededSimulation(seed, start)
+}
+
+export function sleep(ms: number, clock: Clock = systemClock): Promise<void> {
+  return new Promise((resolve) => {
+    clock.setTimer(resolve, ms)
+  })
+}
+
+// e.g. ord_k3j9x0q2
+export function randomId(prefix: string, rng: Rng = Math.random): string {
+  return `${prefix}_${rng().toString(36).slice(2, 10)}`
+}
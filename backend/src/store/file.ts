@@ -0,0 +1,139 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import * as Sentry from '@sentry/node'
+import { logger } from '../logger'
+import { Cart, Order, Product } from '../types'
+import { applyOrderQuery } from './query'
+import { Store, StoreSeed } from './types'
+
+// One JSON record per line. A later record with the same id supersedes an earlier one.
+type LogRecord =
+  | { kind: 'product'; data: Product }
+  | { kind: 'stock'; data: { productId: string; onHand: number } }
+  | { kind: 'cart'; data: Cart }
+  | { kind: 'order'; data: Order }
+
+// Wraps a store operation in a `db.*` span so it shows up in the checkout trace
+function dbSpan<T>(
+  op: 'db.query' | 'db.insert' | 'db.update',
+  collection: string,
+  statement: string,
+  fn: () => Promise<T>
+) {
+  return Sentry.startSpan(
+    {
+      name: statement,
+      op,
+      attributes: {
+        'db.system': 'jsonl',
+        'db.collection.name': collection,
+        'db.operation.name': op === 'db.query' ? 'select' : op.slice('db.'.length),
+      },
+    },
+    fn
+  )
+}
+
+/*
+  Append-only JSON log. The whole log is replayed into memory at startup, reads are served
+  from that index, and every write is appended to the file before it becomes visible.
+*/
+export function createFileStore(filePath: string, seed: StoreSeed): Store {
+  const products = new Map<string, Product>()
+  const stock = new Map<string, number>()
+  const carts = new Map<string, Cart>()
+  const orders = new Map<string, Order>()
+
+  function apply(record: LogRecord) {
+    switch (record.kind) {
+      case 'product':
+        products.set(record.data.id, record.data)
+        break
+      case 'stock':
+        stock.set(record.data.productId, record.data.onHand)
+        break
+      case 'cart':
+        carts.set(record.data.id, record.data)
+        break
+      case 'order': {
+        // Orders logged before the lifecycle and refunds existed lack these
+        const order = record.data
+        order.history ??= [{ from: null, to: order.status, at: order.createdAt }]
+        order.updatedAt ??= order.createdAt
+        order.refundedMinor ??= 0
+        order.refunds ??= []
+        orders.set(order.id, order)
+        break
+      }
+    }
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  if (fs.existsSync(filePath)) {
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n')
+    lines.forEach((line, i) => {
+      if (!line.trim()) return
+      try {
+        apply(JSON.parse(line) as LogRecord)
+      } catch {
+        // A crash mid-append can leave a torn last line; skip it rather than refuse to boot
+        logger.warn('Skipping unreadable store record', { file: filePath, line: i + 1 })
+      }
+    })
+  }
+  const seedRecords: LogRecord[] = []
+  if (products.size === 0) {
+    seedRecords.push(...seed.products.map((p): LogRecord => ({ kind: 'product', data: p })))
+  }
+  // Logs written before stock tracking existed get their stock seeded on the next boot
+  for (const [productId, onHand] of Object.entries(seed.stock)) {
+    if (!stock.has(productId)) seedRecords.push({ kind: 'stock', data: { productId, onHand } })
+  }
+  if (seedRecords.length > 0) {
+    fs.appendFileSync(filePath, seedRecords.map((r) => JSON.stringify(r) + '\n').join(''))
+    seedRecords.forEach(apply)
+  }
+
+  // Serialize appends so records land in the file in the order they were written
+  let writes: Promise<void> = Promise.resolve()
+  function append(record: LogRecord): Promise<void> {
+    const next = writes.then(() => fs.promises.appendFile(filePath, JSON.stringify(record) + '\n'))
+    writes = next.catch(() => {})
+    return next.then(() => apply(record))
+  }
+
+  return {
+    driver: 'file',
+    listProducts() {
+      return dbSpan('db.query', 'products', 'SELECT * FROM products', async () => Array.from(products.values()))
+    },
+    getProduct(id) {
+      return dbSpan('db.query', 'products', 'SELECT * FROM products WHERE id = ?', async () => products.get(id))
+    },
+    listStock() {
+      return dbSpan('db.query', 'stock', 'SELECT * FROM stock', async () => Object.fromEntries(stock))
+    },
+    saveStock(productId, onHand) {
+      return dbSpan('db.update', 'stock', 'UPDATE stock SET on_hand = ? WHERE product_id = ?', () =>
+        append({ kind: 'stock', data: { productId, onHand } })
+      )
+    },
+    getCart(id) {
+      return dbSpan('db.query', 'carts', 'SELECT * FROM carts WHERE id = ?', async () => carts.get(id))
+    },
+    saveCart(cart) {
+      return dbSpan('db.update', 'carts', 'UPSERT INTO carts', () => append({ kind: 'cart', data: cart }))
+    },
+    saveOrder(order) {
+      return dbSpan('db.update', 'orders', 'UPSERT INTO orders', () => append({ kind: 'order', data: order }))
+    },
+    getOrder(id) {
+      return dbSpan('db.query', 'orders', 'SELECT * FROM orders WHERE id = ?', async () => orders.get(id))
+    },
+    queryOrders(query) {
+      return dbSpan('db.query', 'orders', 'SELECT * FROM orders WHERE ? ORDER BY ? LIMIT ?', async () =>
+        applyOrderQuery(orders.values(), query)
+      )
+    },
+  }
+}
@@ -0,0 +1,21 @@
+import path from 'node:path'
+import { getSeedStock, SEED_PRODUCTS } from '../catalog'
+import { createFileStore } from './file'
+import { createMemoryStore } from './memory'
+import { Store } from './types'
+
+export type { Store, StoreDriver, StoreSeed, OrderPage } from './types'
+
+// Picks the storage driver from env: STORE_DRIVER=memory (default) or STORE_DRIVER=file
+export function createStore(): Store {
+  const driver = process.env.STORE_DRIVER ?? 'memory'
+  const seed = { products: SEED_PRODUCTS, stock: getSeedStock() }
+  switch (driver) {
+    case 'memory':
+      return createMemoryStore(seed)
+    case 'file':
+      return createFileStore(path.resolve(process.env.STORE_FILE ?? 'data/store.jsonl'), seed)
+    default:
+      throw new Error(`Unknown STORE_DRIVER "${driver}" (expected "memory" or "file")`)
+  }
+}
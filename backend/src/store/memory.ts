@@ -0,0 +1,42 @@
+import { Cart, Order } from '../types'
+import { applyOrderQuery } from './query'
+import { Store, StoreSeed } from './types'
+
+// Process-local store; everything is lost on restart
+export function createMemoryStore(seed: StoreSeed): Store {
+  const products = new Map(seed.products.map((p) => [p.id, p]))
+  const stock = new Map(Object.entries(seed.stock))
+  const carts = new Map<string, Cart>()
+  const orders = new Map<string, Order>()
+
+  return {
+    driver: 'memory',
+    async listProducts() {
+      return Array.from(products.values())
+    },
+    async getProduct(id) {
+      return products.get(id)
+    },
+    async listStock() {
+      return Object.fromEntries(stock)
+    },
+    async saveStock(productId, onHand) {
+      stock.set(productId, onHand)
+    },
+    async getCart(id) {
+      return carts.get(id)
+    },
+    async saveCart(cart) {
+      carts.set(cart.id, cart)
+    },
+    async saveOrder(order) {
+      orders.set(order.id, order)
+    },
+    async getOrder(id) {
+      return orders.get(id)
+    },
+    async queryOrders(query) {
+      return applyOrderQuery(orders.values(), query)
+    },
+  }
+}
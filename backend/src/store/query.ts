@@ -0,0 +1,22 @@
+import { Order, OrderQuery } from '../types'
+import { OrderPage } from './types'
+
+// Filters, sorts and paginates orders in memory; shared by every driver
+export function applyOrderQuery(all: Iterable<Order>, q: OrderQuery): OrderPage {
+  const matching = Array.from(all).filter((o) => {
+    if (q.provider && o.paymentProvider !== q.provider) return false
+    if (q.status && o.status !== q.status) return false
+    const createdAt = new Date(o.createdAt).getTime()
+    if (q.from && createdAt < q.from.getTime()) return false
+    if (q.to && createdAt > q.to.getTime()) return false
+    return true
+  })
+  const dir = q.sortDir === 'asc' ? 1 : -1
+  matching.sort((a, b) => {
+    const av = q.sortField === 'createdAt' ? new Date(a.createdAt).getTime() : a[q.sortField]
+    const bv = q.sortField === 'createdAt' ? new Date(b.createdAt).getTime() : b[q.sortField]
+    return (av - bv) * dir
+  })
+  const start = (q.page - 1) * q.pageSize
+  return { orders: matching.slice(start, start + q.pageSize), total: matching.length }
+}
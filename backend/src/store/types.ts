@@ -0,0 +1,22 @@
+import { Cart, Order, OrderQuery, Product } from '../types'
+
+export type StoreDriver = 'memory' | 'file'
+
+export type OrderPage = { orders: Order[]; total: number }
+
+// What a fresh store starts with; stock is units on hand per product id
+export type StoreSeed = { products: Product[]; stock: Record<string, number> }
+
+// Everything the HTTP handlers need from persistence. Drivers must keep these semantics identical.
+export type Store = {
+  driver: StoreDriver
+  listProducts(): Promise<Product[]>
+  getProduct(id: string): Promise<Product | undefined>
+  listStock(): Promise<Record<string, number>>
+  saveStock(productId: string, onHand: number): Promise<void>
+  getCart(id: string): Promise<Cart | undefined>
+  saveCart(cart: Cart): Promise<void>
+  saveOrder(order: Order): Promise<void>
+  getOrder(id: string): Promise<Order | undefined>
+  queryOrders(query: OrderQuery): Promise<OrderPage>
+}
@@ -0,0 +1,82 @@
+// Domain types shared by the HTTP layer and the storage drivers. What crosses the wire is defined
+// once in the contract module and re-exported from here.
+import type { OrderStatus, PaymentProvider, Product as ProductListing } from '../../contract/src'
+import type { Currency } from './currency'
+import type { Region, ShippingMethod } from './pricing'
+
+export { ORDER_STATUSES, PAYMENT_PROVIDERS } from '../../contract/src'
+export type { Cart, CartLine, CartStatus, OrderStatus, PaymentProvider } from '../../contract/src'
+
+// A catalog entry as stored; `priceMinor` is in BASE_CURRENCY minor units (see currency.ts), and
+// the API adds the converted price and stock when listing it
+export type Product = Omit<ProductListing, 'available' | 'currency'>
+
+export type OrderTransition = {
+  from: OrderStatus | null
+  to: OrderStatus
+  at: string
+  reason?: string
+}
+
+export type Refund = {
+  id: string
+  amountMinor: number
+  provider: PaymentProvider
+  // Declined refunds are kept too, so retries are visible on the order
+  status: 'succeeded' | 'failed'
+  reason?: string
+  createdAt: string
+}
+
+export type OrderLine = {
+  productId: string
+  quantity: number
+  // Snapshot of the product at checkout time, so later catalog edits don't rewrite history
+  product: Pick<Product, 'id' | 'name' | 'description'>
+  unitPriceMinor: number
+  lineTotalMinor: number
+}
+
+export type Order = {
+  id: string
+  status: OrderStatus
+  // Provider that took (or last declined) the payment, after any failover
+  paymentProvider: PaymentProvider
+  paymentAttempts: number
+  // All prices and totals on the order are in this currency's minor units
+  currency: Currency
+  items: OrderLine[]
+  itemCount: number
+  subtotalMinor: number
+  discountMinor: number
+  promoCode?: string
+  region: Region
+  shippingMethod: ShippingMethod
+  shippingMinor: number
+  taxMinor: number
+  // What was charged: subtotal - discount + shipping + tax
+  totalMinor: number
+  // Sum of succeeded refunds; the order becomes `refunded` once this reaches totalMinor
+  refundedMinor: number
+  refunds: Refund[]
+  // Every status the order has been in, oldest first
+  history: OrderTransition[]
+  // The checkout span, so later transitions (in their own traces) can link back to it
+  checkoutTrace?: { traceId: string; spanId: string }
+  createdAt: string
+  updatedAt: string
+}
+
+export const ORDER_SORT_FIELDS = ['createdAt', 'totalMinor', 'itemCount'] as const
+export type OrderSortField = (typeof ORDER_SORT_FIELDS)[number]
+
+export type OrderQuery = {
+  page: number
+  pageSize: number
+  provider?: PaymentProvider
+  status?: OrderStatus
+  from?: Date
+  to?: Date
+  sortField: OrderSortField
+  sortDir: 'asc' | 'desc'
+}
@@ -0,0 +1,138 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import * as Sentry from '@sentry/node'
+import { fakeCharge } from './payments'
+import { liveSimulation, randomId, Simulation, sleep } from './simulation'
+import { PaymentProvider } from './types'
+
+export type WebhookEventType = 'charge.succeeded' | 'charge.failed'
+
+// What a provider POSTs to /api/webhooks/:provider once it has decided on a charge
+export type WebhookEvent = {
+  id: string
+  type: WebhookEventType
+  provider: PaymentProvider
+  orderId: string
+  amountMinor: number
+  latencyMs: number
+  chaosPhase: string | null
+  createdAt: string
+}
+
+export const SIGNATURE_HEADER = 'Webhook-Signature'
+
+// Signatures older than this are rejected, so a captured request can't be replayed later
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000
+
+function webhookSecret(): string {
+  return process.env.PAYMENT_WEBHOOK_SECRET ?? 'whsec_crash_commerce_dev'
+}
+
+function hmac(timestamp: number, payload: string | Buffer): string {
+  return createHmac('sha256', webhookSecret()).update(`${timestamp}.`).update(payload).digest('hex')
+}
+
+// `t=<unix ms>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+export function signWebhook(payload: string, now = Date.now()): string {
+  return `t=${now},v1=${hmac(now, payload)}`
+}
+
+// Returns an error message when the signature header doesn't match the raw body
+export function verifyWebhookSignature(payload: Buffer, header: string | undefined, now = Date.now()): string | null {
+  if (!header) return `Missing ${SIGNATURE_HEADER} header`
+  const parts = Object.fromEntries(header.split(',').map((part) => part.split('=', 2) as [string, string]))
+  const timestamp = Number(parts.t)
+  if (!Number.isFinite(timestamp) || !parts.v1) return `Malformed ${SIGNATURE_HEADER} header`
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_MS) return 'Webhook signature expired'
+  const expected = Buffer.from(hmac(timestamp, payload), 'hex')
+  const actual = Buffer.from(parts.v1, 'hex')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return 'Invalid webhook signature'
+  return null
+}
+
+// Remembers event ids so a redelivered event is acknowledged without being applied twice
+export function createWebhookDeduper(options: { ttlMs: number }) {
+  const seen = new Map<string, number>()
+  return {
+    // True the first time an id is claimed (until it expires or is released)
+    claim(id: string, now = Date.now()): boolean {
+      for (const [key, expiresAt] of seen) {
+        if (expiresAt <= now) seen.delete(key)
+      }
+      if (seen.has(id)) return false
+      seen.set(id, now + options.ttlMs)
+      return true
+    },
+    // For events we failed to process, so the provider's retry gets another go
+    release(id: string) {
+      seen.delete(id)
+    },
+  }
+}
+
+// Delivery attempts before the fake provider gives up on a webhook
+const MAX_DELIVERY_ATTEMPTS = 3
+
+/*
+  The fake provider's side of an asynchronous charge: decide the outcome with the usual latency
+  and failure profile, then POST a signed event to the webhook URL, retrying failed deliveries.
+  `traceHeaders` are captured at checkout, so the delivery and the webhook handler continue the
+  checkout trace. Like real PSPs it delivers at least once: PAYMENT_WEBHOOK_DUPLICATE_RATE of
+  events are sent twice.
+*/
+export function requestAsyncCharge(options: {
+  webhookUrl: string
+  provider: PaymentProvider
+  orderId: string
+  amountMinor: number
+  traceHeaders: { 'sentry-trace'?: string; baggage?: string }
+  simulation?: Simulation
+}) {
+  const { webhookUrl, provider, orderId, amountMinor, traceHeaders, simulation = liveSimulation } = options
+  const { rng, clock } = simulation
+  const duplicateRate = Number(process.env.PAYMENT_WEBHOOK_DUPLICATE_RATE ?? 0.1)
+
+  const run = async () => {
+    const charge = await fakeCharge(amountMinor, provider, simulation).catch(() => undefined)
+    const event: WebhookEvent = {
+      id: randomId('evt', rng),
+      // A provider that blew up reports the charge as failed
+      type: charge?.status === 'success' ? 'charge.succeeded' : 'charge.failed',
+      provider,
+      orderId,
+      amountMinor,
+      latencyMs: charge?.latencyMs ?? 0,
+      chaosPhase: charge?.chaosPhase ?? null,
+      createdAt: new Date(clock.now()).toISOString(),
+    }
+    const body = JSON.stringify(event)
+    const deliveries = rng() < duplicateRate ? 2 : 1
+
+    for (let delivery = 1; delivery <= deliveries; delivery++) {
+      for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+        const ok = await Sentry.startSpan(
+          {
+            name: `Deliver ${provider} webhook`,
+            op: 'commerce.payment.webhook.send',
+            attributes: { 'order.id': orderId, 'webhook.event_id': event.id, 'webhook.attempt': attempt },
+          },
+          async (span) => {
+            const response = await fetch(webhookUrl, {
+              method: 'POST',
+              // sentry-trace and baggage are added by Sentry's fetch instrumentation
+              headers: { 'Content-Type': 'application/json', [SIGNATURE_HEADER]: signWebhook(body, clock.now()) },
+              body,
+            }).catch(() => undefined)
+            span.setAttribute('http.response.status_code', response?.status ?? 0)
+            return !!response && response.ok
+          }
+        )
+        if (ok) break
+        await sleep(500 * 2 ** (attempt - 1), clock)
+      }
+    }
+  }
+
+  Sentry.continueTrace({ sentryTrace: traceHeaders['sentry-trace'], baggage: traceHeaders.baggage }, () => {
+    run().catch((err) => Sentry.captureException(err))
+  })
+}
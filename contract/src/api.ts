@@ -0,0 +1,233 @@
+import { ERROR_CODES } from './errors'
+import {
+  array,
+  boolean,
+  type Infer,
+  integer,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  refine,
+  string,
+} from './validate'
+
+export const PAYMENT_PROVIDERS = ['ZapPay', 'GlitchPay', 'LagPay'] as const
+export type PaymentProvider = (typeof PAYMENT_PROVIDERS)[number]
+
+// Products the backend seeds into an empty store (see backend/src/catalog.ts)
+export const PRODUCT_IDS = ['npe', 'typeerror', 'segfault', 'syntax', 'oom'] as const
+export type ProductId = (typeof PRODUCT_IDS)[number]
+
+// `failed` is terminal for a checkout whose payment was declined; see ORDER_TRANSITIONS in backend/src/orders.ts
+export const ORDER_STATUSES = [
+  'pending_payment',
+  'paid',
+  'picking',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'refunded',
+  'failed',
+] as const
+export type OrderStatus = (typeof ORDER_STATUSES)[number]
+
+export const REGIONS = ['US', 'EU', 'UK', 'JP'] as const
+export type Region = (typeof REGIONS)[number]
+
+export const SHIPPING_METHODS = ['standard', 'express', 'overnight'] as const
+export type ShippingMethod = (typeof SHIPPING_METHODS)[number]
+
+// GET /api/currencies; `exponent` is the number of minor-unit digits (JPY has none)
+export const currenciesSchema = array(object({ code: string({ min: 1 }), exponent: integer({ min: 0 }) }))
+export type CurrencyInfo = Infer<typeof currenciesSchema>[number]
+
+export const MAX_PROVIDER_LATENCY_MS = 30_000
+
+// GET /api/payment-config entries and the body of PUT /api/payment-config/:provider
+export const providerConfigSchema = refine(
+  object({
+    minMs: number({ min: 0, max: MAX_PROVIDER_LATENCY_MS }),
+    maxMs: number({ min: 0, max: MAX_PROVIDER_LATENCY_MS }),
+    failureRate: number({ min: 0, max: 1 }),
+  }),
+  (cfg) => (cfg.minMs > cfg.maxMs ? { field: 'minMs', message: 'minMs must not exceed maxMs' } : null)
+)
+export type ProviderConfig = Infer<typeof providerConfigSchema>
+
+export const providerConfigsSchema = record(PAYMENT_PROVIDERS, providerConfigSchema)
+
+// GET /api/products entries, priced in the requested currency
+export const productSchema = object({
+  id: string({ min: 1 }),
+  name: string(),
+  description: string(),
+  priceMinor: integer({ min: 0 }),
+  badge: optional(string()),
+  color: optional(string()),
+  // Units left to sell
+  available: integer({ min: 0 }),
+  // Currency `priceMinor` is expressed in
+  currency: string(),
+})
+export type Product = Infer<typeof productSchema>
+
+export const productsSchema = array(productSchema)
+
+export const cartLineSchema = object({
+  productId: string({ min: 1 }),
+  quantity: integer({ min: 1 }),
+})
+export type CartLine = Infer<typeof cartLineSchema>
+
+export const CART_STATUSES = ['open', 'checked_out'] as const
+export type CartStatus = (typeof CART_STATUSES)[number]
+
+// Server-side shopping cart; lines hold no prices, they are priced at quote/checkout time
+export const cartSchema = object({
+  id: string({ min: 1 }),
+  status: oneOf(CART_STATUSES),
+  lines: array(cartLineSchema),
+  // Set once a checkout of this cart succeeds
+  orderId: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+})
+export type Cart = Infer<typeof cartSchema>
+
+// POST /api/carts/:id/lines
+export const addCartLineRequestSchema = object({
+  productId: string({ min: 1 }),
+  quantity: optional(integer({ min: 1 })),
+})
+
+// PUT /api/carts/:id/lines/:productId; 0 removes the line
+export const setCartLineRequestSchema = object({
+  quantity: integer({ min: 0 }),
+})
+
+// What to price: a server-side cart, or (older clients) the lines inline
+const pricedCartFields = {
+  cartId: optional(string({ min: 1 })),
+  items: optional(array(cartLineSchema)),
+  // Defaults to USD
+  currency: optional(string()),
+}
+
+const quoteFields = {
+  ...pricedCartFields,
+  promoCode: optional(string()),
+  // Default from the currency, and `standard`
+  region: optional(oneOf(REGIONS)),
+  shippingMethod: optional(oneOf(SHIPPING_METHODS)),
+}
+
+// POST /api/checkout/quote
+export const quoteRequestSchema = object(quoteFields)
+export type QuoteRequest = Infer<typeof quoteRequestSchema>
+
+// POST /api/checkout
+export const checkoutRequestSchema = object({
+  ...quoteFields,
+  // Picked at random when unset
+  paymentProvider: optional(oneOf(PAYMENT_PROVIDERS)),
+  // The quote the shopper saw, or just its total; checkout refuses to charge anything else
+  quoteId: optional(string()),
+  expectedTotalMinor: optional(integer()),
+})
+export type CheckoutRequest = Infer<typeof checkoutRequestSchema>
+
+// POST /api/promotions/validate
+export const promotionRequestSchema = object({
+  ...pricedCartFields,
+  code: string(),
+})
+
+// 200 (paid) or 202 (pending_payment, confirmed later by webhook) from POST /api/checkout
+export const checkoutResponseSchema = object({
+  orderId: string({ min: 1 }),
+  status: oneOf(ORDER_STATUSES),
+  // The provider that finally took the payment, after any failover
+  paymentProvider: oneOf(PAYMENT_PROVIDERS),
+  requestedPaymentProvider: oneOf(PAYMENT_PROVIDERS),
+  paymentAttempts: integer({ min: 0 }),
+  currency: string(),
+  subtotalMinor: integer(),
+  discountMinor: integer(),
+  promoCode: nullable(string()),
+  shippingMinor: integer(),
+  taxMinor: integer(),
+  totalMinor: integer(),
+})
+export type CheckoutResponse = Infer<typeof checkoutResponseSchema>
+
+export const promotionSchema = object({
+  code: string(),
+  description: string(),
+  type: string(),
+  discountMinor: integer({ min: 0 }),
+})
+export type Promotion = Infer<typeof promotionSchema>
+
+export const shippingOptionSchema = object({
+  id: oneOf(SHIPPING_METHODS),
+  label: string(),
+  amountMinor: integer({ min: 0 }),
+  etaDays: integer({ min: 0 }),
+})
+export type ShippingOption = Infer<typeof shippingOptionSchema>
+
+// POST /api/checkout/quote; pass `id` as `quoteId` at checkout. A promo code that doesn't apply
+// is reported in `promoError` and left out of the totals.
+export const quoteSchema = object({
+  id: string({ min: 1 }),
+  currency: string(),
+  region: oneOf(REGIONS),
+  shippingMethod: oneOf(SHIPPING_METHODS),
+  shippingOptions: array(shippingOptionSchema),
+  subtotalMinor: integer(),
+  discountMinor: integer(),
+  shippingMinor: integer(),
+  taxRate: number({ min: 0 }),
+  taxMinor: integer(),
+  totalMinor: integer(),
+  expiresAt: string(),
+  promotion: nullable(promotionSchema),
+  promoError: nullable(string()),
+})
+export type Quote = Infer<typeof quoteSchema>
+
+// POST /api/orders/:id/refund
+export const refundRequestSchema = object({
+  // Everything not refunded yet when unset
+  amountMinor: optional(integer({ min: 1 })),
+  reason: optional(string()),
+})
+
+// POST /api/orders/:id/cancel
+export const cancelRequestSchema = object({
+  reason: optional(string()),
+})
+
+// `data` of a `status` event on GET /api/orders/:id/events
+export const orderStatusEventSchema = object({
+  orderId: string(),
+  from: nullable(oneOf(ORDER_STATUSES)),
+  to: oneOf(ORDER_STATUSES),
+  status: oneOf(ORDER_STATUSES),
+  at: string(),
+  reason: optional(string()),
+})
+export type OrderStatusEvent = Infer<typeof orderStatusEventSchema>
+
+export const errorBodySchema = object({
+  error: object({
+    code: oneOf(ERROR_CODES),
+    message: string(),
+    retryable: boolean(),
+    details: optional(array(object({ field: string(), message: string() }))),
+    eventId: optional(string()),
+  }),
+})
@@ -0,0 +1,57 @@
+import type { ErrorDetail } from './errors'
+import { array, type Infer, number, object, optional, refine, string, type Validator } from './validate'
+
+// Thrown at startup when the environment doesn't validate; lists every bad variable at once
+export class ConfigError extends Error {
+  readonly issues: ErrorDetail[]
+
+  constructor(issues: ErrorDetail[]) {
+    super(`Invalid configuration:\n${issues.map((i) => `  ${i.field}: ${i.message}`).join('\n')}`)
+    this.name = 'ConfigError'
+    this.issues = issues
+  }
+}
+
+// Validates env vars against `schema`; empty values count as unset, so `FOO=` falls back to the default
+export function parseEnv<T>(schema: Validator<T>, env: Record<string, unknown>): T {
+  const set = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined && value !== ''))
+  const result = schema(set)
+  if (!result.ok) throw new ConfigError(result.issues)
+  return result.value
+}
+
+/*
+  Rules for the `tracesSampler` of both apps. The first rule whose `route` and `op` match a new
+  root span decides its sample rate; a span no rule matches follows its parent's decision, else
+  the default rate. `route` is a path, optionally preceded by a method (`POST /api/checkout`),
+  and may end in `*` to match a prefix.
+*/
+export const sampleRuleSchema = refine(
+  object({
+    route: optional(string({ min: 1 })),
+    op: optional(string({ min: 1 })),
+    rate: number({ min: 0, max: 1 }),
+  }),
+  (rule) =>
+    rule.route === undefined && rule.op === undefined ? { field: 'route', message: 'A sampling rule needs a route or an op' } : null
+)
+export type SampleRule = Infer<typeof sampleRuleSchema>
+
+export const sampleRulesSchema = array(sampleRuleSchema)
+
+// What a rule can match a span on
+export type SampledSpan = { method?: string; path?: string; op?: string }
+
+function routeMatches(route: string, { method, path }: SampledSpan): boolean {
+  const [ruleMethod, rulePath] = route.includes(' ') ? route.split(' ', 2) : [undefined, route]
+  if (ruleMethod !== undefined && ruleMethod.toUpperCase() !== method?.toUpperCase()) return false
+  if (path === undefined) return false
+  return rulePath.endsWith('*') ? path.startsWith(rulePath.slice(0, -1)) : path === rulePath
+}
+
+// The first matching rule's rate, or undefined when no rule applies
+export function sampleRateFor(rules: SampleRule[], span: SampledSpan): number | undefined {
+  return rules.find(
+    (rule) => (rule.route === undefined || routeMatches(rule.route, span)) && (rule.op === undefined || rule.op === span.op)
+  )?.rate
+}
@@ -0,0 +1,51 @@
+/*
+  The error envelope every API error response uses:
+
+    { "error": { "code": "OUT_OF_STOCK", "message": "...", "retryable": false, "details": [...] } }
+
+  `code` is stable and safe to branch on; `message` is for people and may change. Which status
+  and `retryable` flag go with each code is decided by the backend (backend/src/errors.ts).
+  Unexpected failures also carry `eventId`, the Sentry event they were reported as, so a shopper
+  can quote it to support.
+*/
+export const ERROR_CODES = [
+  'VALIDATION_FAILED',
+  'MALFORMED_JSON',
+  'PAYLOAD_TOO_LARGE',
+  'ROUTE_NOT_FOUND',
+  'CART_EMPTY',
+  'ITEM_INVALID',
+  'CART_NOT_FOUND',
+  'CART_CHECKED_OUT',
+  'PROMO_INVALID',
+  'PROMO_EXHAUSTED',
+  'QUOTE_STALE',
+  'PRICE_MISMATCH',
+  'OUT_OF_STOCK',
+  'PAYMENT_DECLINED',
+  'PROVIDER_TIMEOUT',
+  'PROVIDER_ERROR',
+  'REFUND_DECLINED',
+  'ORDER_NOT_FOUND',
+  'ORDER_NOT_PAID',
+  'ORDER_NOT_REFUNDABLE',
+  'ORDER_NOT_CANCELLABLE',
+  'REFUND_EXCEEDS_BALANCE',
+  'IDEMPOTENCY_KEY_INVALID',
+  'IDEMPOTENCY_KEY_REUSED',
+  'IDEMPOTENCY_REQUEST_INCOMPLETE',
+  'PROVIDER_UNKNOWN',
+  'CHAOS_NOT_LOADED',
+  'WEBHOOK_SIGNATURE_INVALID',
+  'WEBHOOK_EVENT_INVALID',
+  'INTERNAL_ERROR',
+] as const
+
+export type ErrorCode = (typeof ERROR_CODES)[number]
+
+// One offending request field, e.g. `{ field: 'items[1].quantity', message: 'Only 2 left' }`
+export type ErrorDetail = { field: string; message: string }
+
+export type ErrorBody = {
+  error: { code: ErrorCode; message: string; retryable: boolean; details?: ErrorDetail[]; eventId?: string }
+}
@@ -0,0 +1,6 @@
+// Types and runtime validators for the HTTP API, shared by the backend, the frontend and the tests,
+// plus the env parsing and trace sampling rules both apps configure Sentry with
+export * from './api'
+export * from './config'
+export * from './errors'
+export * from './validate'
@@ -0,0 +1,175 @@
+import type { ErrorDetail } from './errors'
+
+/*
+  A few composable runtime validators. Each one checks an unknown value and either returns it
+  typed or lists every problem it found, keyed by field path (`items[1].quantity`), so the same
+  issues can go straight into an error envelope's `details`. Object validators drop unknown keys.
+  Types are inferred from the validators (`Infer<typeof cartSchema>`), so a shape exists once.
+*/
+
+export type Result<T> = { ok: true; value: T } | { ok: false; issues: ErrorDetail[] }
+
+export type Validator<T> = (input: unknown, path?: string) => Result<T>
+
+export type Infer<V> = V extends Validator<infer T> ? T : never
+
+function ok<T>(value: T): Result<T> {
+  return { ok: true, value }
+}
+
+function fail(path: string | undefined, message: string): { ok: false; issues: ErrorDetail[] } {
+  return { ok: false, issues: [{ field: path || 'body', message }] }
+}
+
+function label(path: string | undefined): string {
+  return path || 'body'
+}
+
+export function string(options: { min?: number; max?: number } = {}): Validator<string> {
+  return (input, path) => {
+    if (typeof input !== 'string') return fail(path, `${label(path)} must be a string`)
+    if (options.min !== undefined && input.length < options.min) {
+      return fail(path, options.min === 1 ? `${label(path)} must not be empty` : `${label(path)} is too short`)
+    }
+    if (options.max !== undefined && input.length > options.max) return fail(path, `${label(path)} is too long`)
+    return ok(input)
+  }
+}
+
+export function number(options: { integer?: boolean; min?: number; max?: number } = {}): Validator<number> {
+  return (input, path) => {
+    if (typeof input !== 'number' || !Number.isFinite(input)) return fail(path, `${label(path)} must be a number`)
+    if (options.integer && !Number.isInteger(input)) return fail(path, `${label(path)} must be an integer`)
+    if (options.min !== undefined && input < options.min) return fail(path, `${label(path)} must be at least ${options.min}`)
+    if (options.max !== undefined && input > options.max) return fail(path, `${label(path)} must be at most ${options.max}`)
+    return ok(input)
+  }
+}
+
+export function integer(options: { min?: number; max?: number } = {}): Validator<number> {
+  return number({ ...options, integer: true })
+}
+
+export function boolean(): Validator<boolean> {
+  return (input, path) => (typeof input === 'boolean' ? ok(input) : fail(path, `${label(path)} must be a boolean`))
+}
+
+export function oneOf<const T extends readonly string[]>(values: T): Validator<T[number]> {
+  return (input, path) =>
+    values.includes(input as string)
+      ? ok(input as T[number])
+      : fail(path, `${label(path)} must be one of ${values.join(', ')}`)
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (input, path) => (input === undefined ? ok(undefined) : validator(input, path))
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (input, path) => (input === null ? ok(null) : validator(input, path))
+}
+
+export function array<T>(item: Validator<T>, options: { min?: number; max?: number } = {}): Validator<T[]> {
+  return (input, path) => {
+    if (!Array.isArray(input)) return fail(path, `${label(path)} must be an array`)
+    if (options.min !== undefined && input.length < options.min) {
+      return fail(path, `${label(path)} must have at least ${options.min} entries`)
+    }
+    if (options.max !== undefined && input.length > options.max) {
+      return fail(path, `${label(path)} must have at most ${options.max} entries`)
+    }
+    const values: T[] = []
+    const issues: ErrorDetail[] = []
+    input.forEach((entry, i) => {
+      const result = item(entry, `${path ?? ''}[${i}]`)
+      if (result.ok) values.push(result.value)
+      else issues.push(...result.issues)
+    })
+    return issues.length ? { ok: false, issues } : ok(values)
+  }
+}
+
+type Shape = Record<string, Validator<unknown>>
+
+// Keys whose validator accepts undefined become optional properties
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S]
+
+type ObjectOf<S extends Shape> = {
+  [K in keyof S as K extends OptionalKeys<S> ? never : K]: Infer<S[K]>
+} & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+
+type Flatten<T> = { [K in keyof T]: T[K] }
+
+export function object<S extends Shape>(shape: S): Validator<Flatten<ObjectOf<S>>> {
+  return (input, path) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return fail(path, `${label(path)} must be an object`)
+    }
+    const value: Record<string, unknown> = {}
+    const issues: ErrorDetail[] = []
+    for (const [key, validator] of Object.entries(shape)) {
+      const result = validator((input as Record<string, unknown>)[key], path ? `${path}.${key}` : key)
+      if (!result.ok) issues.push(...result.issues)
+      else if (result.value !== undefined) value[key] = result.value
+    }
+    return issues.length ? { ok: false, issues } : ok(value as Flatten<ObjectOf<S>>)
+  }
+}
+
+// An object with exactly these keys, each holding the same kind of value
+export function record<const K extends readonly string[], T>(keys: K, item: Validator<T>): Validator<Record<K[number], T>> {
+  return object(Object.fromEntries(keys.map((key) => [key, item]))) as Validator<Record<K[number], T>>
+}
+
+// Adds a check that needs the whole (already valid) value, e.g. comparing two fields
+export function refine<T>(validator: Validator<T>, check: (value: T) => ErrorDetail | null): Validator<T> {
+  return (input, path) => {
+    const result = validator(input, path)
+    if (!result.ok) return result
+    const issue = check(result.value)
+    if (!issue) return result
+    return { ok: false, issues: [{ ...issue, field: path ? `${path}.${issue.field}` : issue.field }] }
+  }
+}
+
+// For env vars: a numeric string, checked by `validator` once converted
+export function numeric(validator: Validator<number>): Validator<number> {
+  return (input, path) => validator(typeof input === 'string' && input.trim() !== '' ? Number(input) : input, path)
+}
+
+// For env vars: `true`/`false` (or `1`/`0`)
+export function flag(): Validator<boolean> {
+  return (input, path) => {
+    if (input === 'true' || input === '1') return ok(true)
+    if (input === 'false' || input === '0') return ok(false)
+    return fail(path, `${label(path)} must be true or false`)
+  }
+}
+
+// For env vars: a JSON string whose parsed value `validator` accepts
+export function json<T>(validator: Validator<T>): Validator<T> {
+  return (input, path) => {
+    if (typeof input !== 'string') return fail(path, `${label(path)} must be a JSON string`)
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(input)
+    } catch {
+      return fail(path, `${label(path)} is not valid JSON`)
+    }
+    return validator(parsed, path)
+  }
+}
+
+// An absolute http(s) URL
+export function url(): Validator<string> {
+  return (input, path) => {
+    if (typeof input !== 'string') return fail(path, `${label(path)} must be a URL`)
+    try {
+      const { protocol } = new URL(input)
+      if (protocol === 'http:' || protocol === 'https:') return ok(input)
+    } catch {
+      // reported below
+    }
+    return fail(path, `${label(path)} must be an http(s) URL`)
+  }
+}
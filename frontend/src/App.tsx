@@ -1,4 +1,4 @@
-import { useMemo, useState, useEffect } from 'react'
+import { useMemo, useState, useEffect, useRef } from 'react'
 import { motion, AnimatePresence, useScroll, useTransform } from 'framer-motion'
 import { useInView } from 'react-intersection-observer'
 import * as Sentry from '@sentry/react'
@@ -16,29 +16,41 @@ import {
   Truck,
   CreditCard,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Tag,
+  SlidersHorizontal,
+  RotateCcw
 } from 'lucide-react'
 import clsx from 'clsx'
+import {
+  cartSchema,
+  type CartLine,
+  checkoutResponseSchema,
+  currenciesSchema,
+  type ErrorCode,
+  orderStatusEventSchema,
+  type OrderStatus,
+  PAYMENT_PROVIDERS,
+  type PaymentProvider,
+  type Product,
+  type ProviderConfig,
+  providerConfigSchema,
+  providerConfigsSchema,
+  productsSchema,
+  type Quote,
+  quoteSchema,
+  REGIONS,
+} from '../../contract/src'
+import { ApiRequestError, ContractViolationError, expectContract, readApiError, readResponse } from './api'
+import { API_URL } from './config'
+import { CART_STORAGE_KEY, loadStoredCart, parseStoredCart, saveStoredCart, type StoredCart } from './cartStorage'
 
-type Product = {
-  id: string
-  name: string
-  description: string
-  priceMinor: number
-  badge?: string
-  color?: string
-}
-
-type CartLine = {
-  productId: string
-  quantity: number
-}
 
-const PAYMENT_PROVIDERS = ['ZapPay', 'GlitchPay', 'LagPay'] as const
-type PaymentProvider = (typeof PAYMENT_PROVIDERS)[number]
-type ProviderConfig = { minMs: number; maxMs: number; failureRate: number }
+// Show an "only N left" hint at or below this many units
+const LOW_STOCK_THRESHOLD = 10
 
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5174'
+// Upper bound for the latency sliders in the provider control panel
+const MAX_SLIDER_LATENCY_MS = 10_000
 
 // Product icon mapping
 const PRODUCT_ICONS: Record<string, React.ReactNode> = {
@@ -49,8 +61,17 @@ const PRODUCT_ICONS: Record<string, React.ReactNode> = {
   'oom': <Package className="w-32 h-32 drop-shadow-2xl" />,
 }
 
-function formatMoney(minor: number) {
-  return `$${(minor / 100).toFixed(2)}`
+const moneyFormatters = new Map<string, Intl.NumberFormat>()
+
+// Formats minor units in the shopper's locale; the currency's own digits decide the scale (JPY has none)
+function formatMoney(minor: number, currency: string) {
+  let formatter = moneyFormatters.get(currency)
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency })
+    moneyFormatters.set(currency, formatter)
+  }
+  const digits = formatter.resolvedOptions().maximumFractionDigits ?? 2
+  return formatter.format(minor / 10 ** digits)
 }
 
 // Hero Section Component
@@ -129,6 +150,9 @@ function ProductCard({ product, onAddToCart }: { product: Product & { icon?: Rea
     threshold: 0.1,
     triggerOnce: true
   })
+  const soldOut = product.available === 0
+  const { currency } = product
+  const lowStock = product.available > 0 && product.available <= LOW_STOCK_THRESHOLD
 
   return (
     <motion.div
@@ -154,6 +178,13 @@ function ProductCard({ product, onAddToCart }: { product: Product & { icon?: Rea
               {product.icon || <Package className="w-32 h-32 drop-shadow-2xl" />}
             </div>
           </motion.div>
+          {soldOut && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+              <span className="px-4 py-2 rounded-full bg-black/60 text-white text-sm font-bold uppercase tracking-widest">
+                Sold out
+              </span>
+            </div>
+          )}
           {product.badge && (
             <motion.span
               initial={{ x: -100 }}
@@ -170,26 +201,32 @@ function ProductCard({ product, onAddToCart }: { product: Product & { icon?: Rea
           <p className="text-sm text-white/60 mb-4 line-clamp-2 min-h-[2.5rem]">
             {product.description}
           </p>
+          {lowStock && (
+            <p className="text-xs font-semibold text-amber-400 -mt-2 mb-3" data-testid={`stock-${product.id}`}>
+              Only {product.available} left
+            </p>
+          )}
           
           <div className="flex items-center justify-between">
             <div>
               <span className="text-2xl font-bold text-white">
-                {formatMoney(product.priceMinor)}
+                {formatMoney(product.priceMinor, currency)}
               </span>
               <span className="text-xs text-white/40 ml-2 line-through">
-                {formatMoney(product.priceMinor * 1.5)}
+                {formatMoney(product.priceMinor * 1.5, currency)}
               </span>
             </div>
             
             <motion.button
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
+              whileHover={soldOut ? undefined : { scale: 1.05 }}
+              whileTap={soldOut ? undefined : { scale: 0.95 }}
               onClick={onAddToCart}
+              disabled={soldOut}
               data-testid={`add-${product.id}`}
-              className="flex items-center gap-2 px-4 py-2 rounded-full bg-gradient-to-r from-purple-600 to-pink-600 text-white font-medium text-sm hover:shadow-lg hover:shadow-purple-500/25 transition-all"
+              className="flex items-center gap-2 px-4 py-2 rounded-full bg-gradient-to-r from-purple-600 to-pink-600 text-white font-medium text-sm hover:shadow-lg hover:shadow-purple-500/25 transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:shadow-none"
             >
               <Plus className="w-4 h-4" />
-              Add
+              {soldOut ? 'Sold out' : 'Add'}
             </motion.button>
           </div>
         </div>
@@ -210,7 +247,13 @@ function CartDrawer({
   paymentProvider,
   onChangeProvider,
   providerConfig,
-  products
+  products,
+  currency,
+  quote,
+  onApplyPromo,
+  onRemovePromo,
+  onChangeRegion,
+  onChangeShipping
 }: {
   isOpen: boolean
   onClose: () => void
@@ -223,13 +266,16 @@ function CartDrawer({
   onChangeProvider: (provider: PaymentProvider) => void
   providerConfig?: Record<PaymentProvider, ProviderConfig> | null
   products: Product[]
+  currency: string
+  quote: Quote | null
+  onApplyPromo: (code: string) => void
+  onRemovePromo: () => void
+  onChangeRegion: (region: string) => void
+  onChangeShipping: (method: string) => void
 }) {
-  const cartValueMinor = useMemo(() => {
-    return cart.reduce((sum, line) => {
-      const product = products.find((p) => p.id === line.productId)
-      return sum + (product ? product.priceMinor * line.quantity : 0)
-    }, 0)
-  }, [cart, products])
+  const [promoInput, setPromoInput] = useState('')
+  const promotion = quote?.promotion ?? null
+  const promoError = quote?.promoError ?? null
 
   return (
     <AnimatePresence>
@@ -299,7 +345,7 @@ function CartDrawer({
                             <div className="flex-1">
                               <h3 className="font-medium text-white">{product.name}</h3>
                               <p className="text-sm text-white/60 mt-1">
-                                {formatMoney(product.priceMinor)} each
+                                {formatMoney(product.priceMinor, currency)} each
                               </p>
                               
                               <div className="flex items-center gap-3 mt-3">
@@ -334,7 +380,7 @@ function CartDrawer({
                             
                             <div className="text-right">
                               <p className="text-lg font-bold text-white">
-                                {formatMoney(product.priceMinor * line.quantity)}
+                                {formatMoney(product.priceMinor * line.quantity, currency)}
                               </p>
                             </div>
                           </div>
@@ -349,22 +395,122 @@ function CartDrawer({
             {/* Footer */}
             {cart.length > 0 && (
               <div className="border-t border-white/10 p-6 space-y-4">
-                <div className="flex justify-between items-center">
-                  <span className="text-white/60">Subtotal</span>
-                  <span className="text-2xl font-bold text-white">
-                    {formatMoney(cartValueMinor)}
-                  </span>
-                </div>
-                
-                <div className="space-y-2 text-sm">
-                  <div className="flex items-center gap-2 text-white/60">
-                    <Truck className="w-4 h-4" />
-                    <span>Free shipping on orders over $50</span>
+                {/* Promo Code */}
+                {promotion ? (
+                  <div className="flex items-center gap-2 rounded-lg bg-green-500/10 border border-green-500/30 px-3 py-2 text-sm">
+                    <Tag className="w-4 h-4 text-green-400" />
+                    <span className="text-white font-mono">{promotion.code}</span>
+                    <span className="text-white/60 truncate">{promotion.description}</span>
+                    <button
+                      onClick={onRemovePromo}
+                      data-testid="promo-remove"
+                      className="ml-auto text-white/60 hover:text-white"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      if (promoInput.trim()) onApplyPromo(promoInput.trim())
+                    }}
+                  >
+                    <input
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value)}
+                      placeholder="Promo code"
+                      data-testid="promo-input"
+                      className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm placeholder:text-white/40 uppercase"
+                    />
+                    <button
+                      type="submit"
+                      data-testid="promo-apply"
+                      className="px-4 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm hover:bg-white/20"
+                    >
+                      Apply
+                    </button>
+                  </form>
+                )}
+                {promoError && <p className="text-xs text-red-400 -mt-2">{promoError}</p>}
+
+                {/* Delivery */}
+                <div className="grid grid-cols-[auto_1fr] gap-2 items-start text-sm">
+                  <select
+                    value={quote?.region ?? ''}
+                    onChange={(e) => onChangeRegion(e.target.value)}
+                    data-testid="region-select"
+                    aria-label="Shipping region"
+                    className="px-2 py-2 rounded-lg bg-white/5 border border-white/10 text-white"
+                  >
+                    {REGIONS.map((r) => (
+                      <option key={r} value={r} className="bg-slate-900">
+                        {r}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Shipping method">
+                    {(quote?.shippingOptions ?? []).map((o) => (
+                      <button
+                        key={o.id}
+                        type="button"
+                        data-testid={`shipping-${o.id}`}
+                        onClick={() => onChangeShipping(o.id)}
+                        className={clsx(
+                          'px-2 py-1 rounded-lg border text-xs',
+                          o.id === quote?.shippingMethod
+                            ? 'bg-purple-600/30 border-purple-500/50 text-white'
+                            : 'bg-white/5 border-white/10 text-white/80 hover:bg-white/10'
+                        )}
+                        aria-pressed={o.id === quote?.shippingMethod}
+                      >
+                        <span className="block">{o.label}</span>
+                        <span className="block text-[10px] text-white/60">
+                          {o.amountMinor === 0 ? 'Free' : formatMoney(o.amountMinor, currency)} • {o.etaDays}d
+                        </span>
+                      </button>
+                    ))}
                   </div>
-                  <div className="flex items-center gap-2 text-white/60">
-                    <CreditCard className="w-4 h-4" />
-                    <span>Secure checkout with {paymentProvider}</span>
+                </div>
+
+                {/* Price Breakdown */}
+                {quote ? (
+                  <div className="space-y-1 text-sm" data-testid="quote-breakdown">
+                    <div className="flex justify-between items-center">
+                      <span className="text-white/60">Subtotal</span>
+                      <span className="text-white">{formatMoney(quote.subtotalMinor, currency)}</span>
+                    </div>
+                    {quote.discountMinor > 0 && (
+                      <div className="flex justify-between items-center" data-testid="promo-discount">
+                        <span className="text-green-400">Discount</span>
+                        <span className="text-green-400">−{formatMoney(quote.discountMinor, currency)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center">
+                      <span className="text-white/60 flex items-center gap-1">
+                        <Truck className="w-4 h-4" /> Shipping
+                      </span>
+                      <span className="text-white">
+                        {quote.shippingMinor === 0 ? 'Free' : formatMoney(quote.shippingMinor, currency)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-white/60">Tax ({Math.round(quote.taxRate * 100)}%)</span>
+                      <span className="text-white">{formatMoney(quote.taxMinor, currency)}</span>
+                    </div>
+                    <div className="flex justify-between items-center pt-2">
+                      <span className="text-white/60">Total</span>
+                      <span className="text-2xl font-bold text-white">{formatMoney(quote.totalMinor, currency)}</span>
+                    </div>
                   </div>
+                ) : (
+                  <p className="text-sm text-white/60">Calculating total…</p>
+                )}
+
+                <div className="flex items-center gap-2 text-sm text-white/60">
+                  <CreditCard className="w-4 h-4" />
+                  <span>Secure checkout with {paymentProvider}</span>
                 </div>
                 
                 {/* Payment Provider Selection */}
@@ -400,7 +546,7 @@ function CartDrawer({
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
                   onClick={onCheckout}
-                  disabled={isCheckingOut}
+                  disabled={isCheckingOut || !quote}
                   id="checkout-button"
                   className="w-full py-4 rounded-full bg-gradient-to-r from-purple-600 to-pink-600 text-white font-semibold text-lg hover:shadow-lg hover:shadow-purple-500/25 transition-all disabled:opacity-50"
                 >
@@ -426,17 +572,448 @@ function CartDrawer({
   )
 }
 
+// Config Slider Component
+function ConfigSlider({
+  label,
+  value,
+  min,
+  max,
+  step,
+  format,
+  onChange,
+  testId
+}: {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+  onChange: (value: number) => void
+  testId: string
+}) {
+  return (
+    <label className="block">
+      <div className="flex justify-between text-xs text-white/60 mb-1">
+        <span>{label}</span>
+        <span className="text-white font-mono">{format(value)}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        data-testid={testId}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full accent-purple-500"
+      />
+    </label>
+  )
+}
+
+// Payment Config Panel Component
+function PaymentConfigPanel({
+  isOpen,
+  onClose,
+  config,
+  onChange,
+  onReset
+}: {
+  isOpen: boolean
+  onClose: () => void
+  config: Record<PaymentProvider, ProviderConfig> | null
+  onChange: (provider: PaymentProvider, cfg: ProviderConfig) => void
+  onReset: () => void
+}) {
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-40"
+          />
+
+          {/* Drawer */}
+          <motion.div
+            initial={{ x: '-100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '-100%' }}
+            transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+            className="fixed left-0 top-0 h-full w-full max-w-sm bg-slate-900 border-r border-white/10 z-50 flex flex-col"
+          >
+            <div className="flex items-center justify-between p-6 border-b border-white/10">
+              <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+                <SlidersHorizontal className="w-6 h-6" />
+                Providers
+              </h2>
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={onClose}
+                className="p-2 rounded-full hover:bg-white/10 transition-colors"
+              >
+                <X className="w-5 h-5 text-white" />
+              </motion.button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-6">
+              <p className="text-sm text-white/60">
+                Changes apply to the next charge. No restart needed.
+              </p>
+              {!config ? (
+                <p className="text-white/60">Payment config unavailable</p>
+              ) : (
+                PAYMENT_PROVIDERS.map((p) => {
+                  const cfg = config[p]
+                  return (
+                    <div key={p} className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-3">
+                      <h3 className="font-medium text-white">{p}</h3>
+                      <ConfigSlider
+                        label="Min latency"
+                        value={cfg.minMs}
+                        min={0}
+                        max={MAX_SLIDER_LATENCY_MS}
+                        step={50}
+                        format={(v) => `${v}ms`}
+                        testId={`config-${p}-minMs`}
+                        onChange={(minMs) => onChange(p, { ...cfg, minMs, maxMs: Math.max(minMs, cfg.maxMs) })}
+                      />
+                      <ConfigSlider
+                        label="Max latency"
+                        value={cfg.maxMs}
+                        min={0}
+                        max={MAX_SLIDER_LATENCY_MS}
+                        step={50}
+                        format={(v) => `${v}ms`}
+                        testId={`config-${p}-maxMs`}
+                        onChange={(maxMs) => onChange(p, { ...cfg, maxMs, minMs: Math.min(maxMs, cfg.minMs) })}
+                      />
+                      <ConfigSlider
+                        label="Failure rate"
+                        value={Math.round(cfg.failureRate * 100)}
+                        min={0}
+                        max={100}
+                        step={1}
+                        format={(v) => `${v}%`}
+                        testId={`config-${p}-failureRate`}
+                        onChange={(pct) => onChange(p, { ...cfg, failureRate: pct / 100 })}
+                      />
+                    </div>
+                  )
+                })
+              )}
+            </div>
+
+            <div className="border-t border-white/10 p-6">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={onReset}
+                data-testid="config-reset"
+                className="w-full flex items-center justify-center gap-2 py-3 rounded-full bg-white/10 border border-white/20 text-white font-medium hover:bg-white/20 transition-all"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Reset to defaults
+              </motion.button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
+
+// Creates an empty server-side cart and resolves with its id
+async function createServerCart(): Promise<string> {
+  const response = await fetch(`${API_URL}/api/carts`, { method: 'POST' })
+  return (await readResponse(response, cartSchema)).id
+}
+
+// What the error toast's button does; resolved against the state at the time it's clicked
+type RecoveryAction =
+  | { kind: 'retry-checkout' }
+  | { kind: 'switch-provider'; provider: PaymentProvider }
+  | { kind: 'set-quantity'; productId: string; quantity: number }
+  | { kind: 'remove-promo' }
+  | { kind: 'rebuild-cart' }
+
+type ErrorToast = {
+  message: string
+  code?: ErrorCode
+  // Sentry event id of an unexpected backend failure, shown so the shopper can quote it
+  eventId?: string
+  action?: { label: string; recovery: RecoveryAction }
+}
+
+// The provider most likely to go through instead of `declined`, going by the control panel's failure rates
+function alternativeProvider(
+  declined: string,
+  configs: Record<PaymentProvider, ProviderConfig> | null
+): PaymentProvider {
+  const others = PAYMENT_PROVIDERS.filter((p) => p !== declined)
+  return configs ? others.reduce((best, p) => (configs[p].failureRate < configs[best].failureRate ? p : best)) : others[0]
+}
+
+// Shopper-facing copy and a way out for a failed checkout, keyed by the backend's error code
+function checkoutErrorToast(
+  err: unknown,
+  cart: CartLine[],
+  products: Product[],
+  configs: Record<PaymentProvider, ProviderConfig> | null
+): ErrorToast {
+  const retry = { label: 'Try again', recovery: { kind: 'retry-checkout' } } as const
+  if (!(err instanceof ApiRequestError)) {
+    return { message: "We couldn't reach the store. Check your connection.", action: retry }
+  }
+  const { code, context } = err
+  const provider = typeof context.paymentProvider === 'string' ? context.paymentProvider : 'The payment provider'
+  const switchProvider = (label: string) => {
+    const next = alternativeProvider(provider, configs)
+    return { label: `${label} ${next}`, recovery: { kind: 'switch-provider', provider: next } } as const
+  }
+  switch (code) {
+    case 'CART_EMPTY':
+      return { code, message: 'Your cart is empty. Pick an error or two first!' }
+    case 'CART_NOT_FOUND':
+    case 'CART_CHECKED_OUT':
+      return {
+        code,
+        message: 'Your cart expired or was checked out in another tab.',
+        action: { label: 'Restore cart', recovery: { kind: 'rebuild-cart' } },
+      }
+    case 'ITEM_INVALID': {
+      // Details point at the offending line, e.g. `items[2].productId`
+      const index = Number(/^items\[(\d+)\]/.exec(err.details[0]?.field ?? '')?.[1])
+      const line = cart[index]
+      return line
+        ? {
+            code,
+            message: 'Something in your cart is no longer sold.',
+            action: { label: 'Remove it', recovery: { kind: 'set-quantity', productId: line.productId, quantity: 0 } },
+          }
+        : { code, message: 'Something in your cart is no longer sold.' }
+    }
+    case 'OUT_OF_STOCK': {
+      const productId = String(context.productId)
+      const available = Number(context.available) || 0
+      const name = products.find((p) => p.id === productId)?.name ?? 'An item'
+      return available > 0
+        ? {
+            code,
+            message: `Only ${available} of ${name} left in stock.`,
+            action: { label: `Buy ${available}`, recovery: { kind: 'set-quantity', productId, quantity: available } },
+          }
+        : {
+            code,
+            message: `${name} just sold out.`,
+            action: { label: 'Remove it', recovery: { kind: 'set-quantity', productId, quantity: 0 } },
+          }
+    }
+    case 'PAYMENT_DECLINED':
+      return { code, message: `${provider} declined the payment.`, action: switchProvider('Pay with') }
+    case 'PROVIDER_TIMEOUT':
+      return { code, message: `${provider} didn't answer in time. You weren't charged.`, action: retry }
+    case 'PROVIDER_ERROR':
+      return {
+        code,
+        message: `${provider} is having trouble. You weren't charged.`,
+        eventId: err.eventId,
+        action: switchProvider('Pay with'),
+      }
+    case 'QUOTE_STALE':
+    case 'PRICE_MISMATCH':
+      return {
+        code,
+        message: 'Prices changed while you were shopping. Check the new total.',
+        action: { label: 'Pay new total', recovery: { kind: 'retry-checkout' } },
+      }
+    case 'PROMO_INVALID':
+    case 'PROMO_EXHAUSTED':
+      return { code, message: err.message, action: { label: 'Remove code', recovery: { kind: 'remove-promo' } } }
+    default:
+      return { code, message: err.message, eventId: err.eventId, action: err.retryable ? retry : undefined }
+  }
+}
+
+// Happy path of an order after checkout, as shown in the confirmation modal
+const ORDER_STEPS = [
+  { status: 'paid', label: 'Paid', icon: CreditCard },
+  { status: 'picking', label: 'Picking', icon: Package },
+  { status: 'shipped', label: 'Shipped', icon: Truck },
+  { status: 'delivered', label: 'Delivered', icon: CheckCircle },
+] as const
+
+// Nothing more to follow once an order reaches one of these
+const FINAL_ORDER_STATUSES = ['delivered', 'failed', 'cancelled', 'refunded']
+
+// Longest wait between reconnects after the status stream drops
+const MAX_STREAM_RETRY_MS = 15_000
+
+/*
+  Follows an order's status over GET /api/orders/:id/events. EventSource retries on its own while
+  the server is reachable; if it gives up (readyState CLOSED) we reconnect with backoff, passing
+  the last event id so the server only replays what we missed.
+*/
+function useOrderStatus(orderId: string | null) {
+  const [live, setLive] = useState<{ orderId: string; status: string; reconnecting: boolean } | null>(null)
+
+  useEffect(() => {
+    if (!orderId) return
+    let source: EventSource | null = null
+    let lastEventId = ''
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    let attempt = 0
+    let done = false
+
+    function connect() {
+      const resume = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : ''
+      source = new EventSource(`${API_URL}/api/orders/${encodeURIComponent(orderId!)}/events${resume}`)
+      source.addEventListener('status', (event) => {
+        const message = event as MessageEvent<string>
+        let status: OrderStatus
+        try {
+          status = expectContract(orderStatusEventSchema, JSON.parse(message.data), source!.url).status
+        } catch (err) {
+          // Skip a bad event rather than stall the tracker; expectContract has already reported mismatches
+          if (!(err instanceof ContractViolationError)) Sentry.captureException(err)
+          return
+        }
+        lastEventId = message.lastEventId
+        attempt = 0
+        setLive({ orderId: orderId!, status, reconnecting: false })
+        if (FINAL_ORDER_STATUSES.includes(status)) {
+          done = true
+          source?.close()
+        }
+      })
+      source.onerror = () => {
+        if (done) return
+        setLive((prev) => (prev ? { ...prev, reconnecting: true } : prev))
+        if (source?.readyState === EventSource.CLOSED) {
+          retryTimer = setTimeout(connect, Math.min(1000 * 2 ** attempt++, MAX_STREAM_RETRY_MS))
+        }
+      }
+    }
+
+    connect()
+    return () => {
+      done = true
+      clearTimeout(retryTimer)
+      source?.close()
+    }
+  }, [orderId])
+
+  return live?.orderId === orderId ? live : null
+}
+
+function OrderStatusTracker({ status, reconnecting }: { status: string; reconnecting: boolean }) {
+  const current = ORDER_STEPS.findIndex((step) => step.status === status)
+  const failed = ['failed', 'cancelled', 'refunded'].includes(status)
+
+  return (
+    <div className="mb-6" data-testid="order-status">
+      <div className="flex items-center justify-between">
+        {ORDER_STEPS.map((step, i) => {
+          const Icon = step.icon
+          const reached = i <= current
+          // While payment is pending, the first step is the one in progress
+          const active = i === current + 1 && !failed && status !== 'delivered'
+          return (
+            <div key={step.status} className="flex flex-1 items-center last:flex-none">
+              <div className="flex flex-col items-center gap-1" data-testid={`order-step-${step.status}`}>
+                <motion.div
+                  animate={
+                    active
+                      ? { scale: [1, 1.15, 1], opacity: [0.6, 1, 0.6] }
+                      : { scale: reached ? 1 : 0.9, opacity: reached ? 1 : 0.4 }
+                  }
+                  transition={active ? { duration: 1.2, repeat: Infinity } : { type: 'spring', stiffness: 300 }}
+                  className={clsx(
+                    'p-2 rounded-full',
+                    reached ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-white/60'
+                  )}
+                >
+                  <Icon className="w-5 h-5" />
+                </motion.div>
+                <span className={clsx('text-xs', reached ? 'text-white' : 'text-white/40')}>{step.label}</span>
+              </div>
+              {i < ORDER_STEPS.length - 1 && (
+                <div className="flex-1 h-0.5 mx-2 mb-5 bg-white/10 overflow-hidden">
+                  <motion.div
+                    initial={false}
+                    animate={{ width: i < current ? '100%' : '0%' }}
+                    transition={{ duration: 0.6 }}
+                    className="h-full bg-green-400"
+                  />
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+      {failed && <p className="mt-3 text-sm text-red-400 capitalize">Order {status.replace('_', ' ')}</p>}
+      {reconnecting && <p className="mt-3 text-xs text-white/40">Reconnecting to live updates…</p>}
+    </div>
+  )
+}
+
+function storedProvider(stored: StoredCart): PaymentProvider {
+  return PAYMENT_PROVIDERS.find((p) => p === stored.paymentProvider) ?? 'ZapPay'
+}
+
 function App() {
-  const [cart, setCart] = useState<CartLine[]>([])
+  // Read once: the last cart and provider this browser used, so a reload picks up where it left off
+  const storedCartRef = useRef<StoredCart | null>(null)
+  storedCartRef.current ??= loadStoredCart()
+  const storedCart = storedCartRef.current
+  const [cart, setCart] = useState<CartLine[]>(storedCart.lines)
   const [isCartOpen, setIsCartOpen] = useState(false)
+  const [isConfigOpen, setIsConfigOpen] = useState(false)
   const [isCheckingOut, setIsCheckingOut] = useState(false)
   const [isScrolled, setIsScrolled] = useState(false)
   const [addedToCart, setAddedToCart] = useState<string | null>(null)
-  const [paymentProvider, setPaymentProvider] = useState<PaymentProvider>('ZapPay')
+  const [paymentProvider, setPaymentProvider] = useState<PaymentProvider>(storedProvider(storedCart))
   const [providerConfig, setProviderConfig] = useState<Record<PaymentProvider, ProviderConfig> | null>(null)
-  const [orderConfirmation, setOrderConfirmation] = useState<{ orderId: string; provider: string; total: number } | null>(null)
-  const [checkoutError, setCheckoutError] = useState<string | null>(null)
+  const [orderConfirmation, setOrderConfirmation] = useState<{
+    orderId: string
+    // `pending_payment` when the provider confirms asynchronously (checkout answered 202)
+    status: string
+    provider: string
+    requestedProvider: string
+    attempts: number
+    total: number
+    currency: string
+  } | null>(null)
+  const [checkoutError, setCheckoutError] = useState<ErrorToast | null>(null)
+  // Informational, e.g. lines dropped because their product left the catalog
+  const [cartNotice, setCartNotice] = useState<string | null>(null)
   const [products, setProducts] = useState<Product[]>([])
+  // Currency the loaded products are priced in; only switches once prices in the new currency arrive
+  const [currency, setCurrency] = useState('USD')
+  const [currencies, setCurrencies] = useState<string[]>(['USD'])
+  // Code the shopper applied; re-quoted by the backend whenever the cart or delivery changes
+  const [promoCode, setPromoCode] = useState<string | null>(null)
+  // null lets the backend pick the region that matches the currency
+  const [region, setRegion] = useState<string | null>(null)
+  const [shippingMethod, setShippingMethod] = useState('standard')
+  const [quote, setQuote] = useState<Quote | null>(null)
+  // Pending debounced PUTs per provider, so dragging a slider sends one request when it settles
+  const configSaveTimers = useRef<Partial<Record<PaymentProvider, ReturnType<typeof setTimeout>>>>({})
+  // Idempotency-Key for the checkout attempt in flight; a double-click reuses it instead of charging twice
+  const checkoutKeyRef = useRef<string | null>(null)
+  // Server-side cart id, and the POST /api/carts in flight so quick clicks don't create two carts
+  const cartIdRef = useRef<string | null>(storedCart.cartId)
+  const cartCreationRef = useRef<Promise<string> | null>(null)
+
+  // Live status of the order in the confirmation modal; falls back to what checkout returned
+  const liveOrder = useOrderStatus(orderConfirmation?.orderId ?? null)
+  const orderStatus = liveOrder?.status ?? orderConfirmation?.status ?? null
 
   const cartCount = useMemo(
     () => cart.reduce((sum, line) => sum + line.quantity, 0),
@@ -451,33 +1028,215 @@ function App() {
     return () => window.removeEventListener('scroll', handleScroll)
   }, [])
 
-  useEffect(() => {
-    // Fetch products from backend
-    fetch(`${API_URL}/api/products`)
-      .then((r) => r.json())
-      .then((data) => setProducts(data))
+  // Fetch products from backend; also called after checkout so availability stays current
+  function loadProducts(priceCurrency: string) {
+    return fetch(`${API_URL}/api/products?currency=${encodeURIComponent(priceCurrency)}`)
+      .then((r) => readResponse(r, productsSchema))
+      .then((data) => {
+        setProducts(data)
+        setCurrency(priceCurrency)
+        return data
+      })
       .catch((err) => {
         console.error('Failed to fetch products:', err)
         setProducts([])
+        return null
       })
+  }
+
+  useEffect(() => {
+    /*
+      Brings back the cart from before the reload. The server-side copy wins over the stored one;
+      if the server lost it (e.g. a restart with the memory store) it is rebuilt from storage.
+      Lines whose product has left the catalog are dropped, with a notice saying so.
+    */
+    async function restoreCart(stored: StoredCart) {
+      const catalog = await loadProducts('USD')
+      let lines = stored.lines
+      if (stored.cartId) {
+        const response = await fetch(`${API_URL}/api/carts/${encodeURIComponent(stored.cartId)}`).catch(() => null)
+        const data = response?.ok ? await readResponse(response, cartSchema).catch(() => null) : null
+        if (response?.status === 404 || (data && data.status !== 'open')) {
+          // Lost, or paid for in another session: a checked-out cart starts over empty
+          cartIdRef.current = null
+          if (data) lines = []
+        } else if (data) {
+          lines = data.lines
+        }
+      }
+      const kept = catalog ? lines.filter((l) => catalog.some((p) => p.id === l.productId)) : lines
+      const gone = lines.filter((l) => !kept.includes(l))
+      setCart(kept)
+      if (gone.length > 0) {
+        const names = gone.map((l) => l.productId).join(', ')
+        setCartNotice(
+          `${names} ${gone.length === 1 ? 'is no longer available and was' : 'are no longer available and were'} removed from your cart`
+        )
+      }
+
+      // An existing cart only needs the dropped lines removed; a lost one is rebuilt line by line,
+      // setting quantities rather than adding so a repeated restore can't double them
+      const changes: [string, RequestInit][] = cartIdRef.current
+        ? gone.map((l) => [`/lines/${encodeURIComponent(l.productId)}`, { method: 'DELETE' }])
+        : kept.map((l) => [
+            `/lines/${encodeURIComponent(l.productId)}`,
+            { method: 'PUT', body: JSON.stringify({ quantity: l.quantity }) },
+          ])
+      for (const [path, init] of changes) {
+        await updateServerCart(path, init).catch((err) => console.error('Failed to restore cart:', err))
+      }
+    }
+    restoreCart(storedCartRef.current!)
+
+    fetch(`${API_URL}/api/currencies`)
+      .then((r) => readResponse(r, currenciesSchema))
+      .then((list) => setCurrencies(list.map((c) => c.code)))
+      .catch(() => setCurrencies(['USD']))
 
     // Fetch payment config
     fetch(`${API_URL}/api/payment-config`)
-      .then((r) => r.json())
+      .then((r) => readResponse(r, providerConfigsSchema))
       .then((cfg) => setProviderConfig(cfg))
       .catch(() => setProviderConfig(null))
+
+    // Follow cart and provider changes made in other tabs
+    function onStorage(event: StorageEvent) {
+      if (event.key !== CART_STORAGE_KEY) return
+      const next = parseStoredCart(event.newValue)
+      cartIdRef.current = next.cartId
+      setCart(next.lines)
+      setPaymentProvider(storedProvider(next))
+    }
+    window.addEventListener('storage', onStorage)
+    return () => window.removeEventListener('storage', onStorage)
   }, [])
 
-  function addToCart(productId: string) {
-    setCart((prev) => {
-      const existing = prev.find((l) => l.productId === productId)
-      if (existing) {
-        return prev.map((l) =>
-          l.productId === productId ? { ...l, quantity: l.quantity + 1 } : l
-        )
-      }
-      return [...prev, { productId, quantity: 1 }]
+  useEffect(() => {
+    saveStoredCart({ cartId: cartIdRef.current, lines: cart, paymentProvider })
+  }, [cart, paymentProvider])
+
+  useEffect(() => {
+    if (cart.length === 0) {
+      setQuote(null)
+      return
+    }
+    let cancelled = false
+    fetch(`${API_URL}/api/checkout/quote`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ cartId: cartIdRef.current ?? undefined, currency, promoCode, region: region ?? undefined, shippingMethod }),
     })
+      .then(async (r) => {
+        const data = await readResponse(r, quoteSchema)
+        if (cancelled) return
+        setQuote(data)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        setQuote(null)
+        console.error('Failed to fetch quote:', err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [cart, currency, promoCode, region, shippingMethod])
+
+  function updateProviderConfig(provider: PaymentProvider, cfg: ProviderConfig) {
+    // Update locally first so the cart's provider buttons reflect the change right away
+    setProviderConfig((prev) => (prev ? { ...prev, [provider]: cfg } : prev))
+    clearTimeout(configSaveTimers.current[provider])
+    configSaveTimers.current[provider] = setTimeout(() => {
+      fetch(`${API_URL}/api/payment-config/${provider}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(cfg),
+      })
+        .then(async (r) => {
+          const data = await readResponse(r, providerConfigSchema)
+          setProviderConfig((prev) => (prev ? { ...prev, [provider]: data } : prev))
+          Sentry.logger.info(Sentry.logger.fmt`⚙️ ${provider} set to ${data.minMs}-${data.maxMs}ms, ${data.failureRate} failure rate`)
+        })
+        .catch((err) => {
+          setCheckoutError({ message: `Failed to update ${provider}: ${err instanceof Error ? err.message : err}` })
+        })
+    }, 300)
+  }
+
+  function resetProviderConfig() {
+    Object.values(configSaveTimers.current).forEach(clearTimeout)
+    configSaveTimers.current = {}
+    fetch(`${API_URL}/api/payment-config`, { method: 'DELETE' })
+      .then((r) => readResponse(r, providerConfigsSchema))
+      .then((cfg) => setProviderConfig(cfg))
+      .catch(() => setCheckoutError({ message: 'Failed to reset payment config' }))
+  }
+
+  // Applies one line change on the backend and shows the cart it sends back
+  async function updateServerCart(path: string, init: RequestInit) {
+    // Concurrent first clicks share one POST /api/carts
+    const cartId = () =>
+      cartIdRef.current ??
+      (cartCreationRef.current ??= createServerCart()
+        .then((id) => (cartIdRef.current = id))
+        .finally(() => (cartCreationRef.current = null)))
+    const send = async (id: string) =>
+      fetch(`${API_URL}/api/carts/${encodeURIComponent(id)}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    let response = await send(await cartId())
+    // Our cart is gone (store wiped) or was checked out in another tab: carry on in a fresh one
+    if (response.status === 404 || response.status === 409) {
+      cartIdRef.current = null
+      response = await send(await cartId())
+    }
+    const data = await readResponse(response, cartSchema)
+    setCart(data.lines)
+  }
+
+  function reportCartError(err: unknown) {
+    setCheckoutError({
+      message: `Failed to update cart: ${err instanceof Error ? err.message : err}`,
+      eventId: err instanceof ApiRequestError ? err.eventId : undefined,
+    })
+  }
+
+  function runRecovery(recovery: RecoveryAction) {
+    setCheckoutError(null)
+    switch (recovery.kind) {
+      case 'retry-checkout':
+        onCheckoutClick()
+        break
+      case 'switch-provider':
+        setPaymentProvider(recovery.provider)
+        setIsCartOpen(true)
+        break
+      case 'set-quantity':
+        updateQuantity(recovery.productId, recovery.quantity)
+        break
+      case 'remove-promo':
+        setPromoCode(null)
+        break
+      case 'rebuild-cart':
+        // The first PUT finds the old cart gone (or closed) and carries on in a fresh one
+        cart
+          .reduce<Promise<void>>(
+            (previous, line) =>
+              previous.then(() =>
+                updateServerCart(`/lines/${encodeURIComponent(line.productId)}`, {
+                  method: 'PUT',
+                  body: JSON.stringify({ quantity: line.quantity }),
+                })
+              ),
+            Promise.resolve()
+          )
+          .catch(reportCartError)
+        break
+    }
+  }
+
+  function addToCart(productId: string) {
+    updateServerCart('/lines', { method: 'POST', body: JSON.stringify({ productId, quantity: 1 }) }).catch(reportCartError)
     
     // Show toast notification
     const product = products.find(p => p.id === productId)
@@ -488,24 +1247,22 @@ function App() {
   }
 
   function removeFromCart(productId: string) {
-    setCart((prev) => prev.filter((l) => l.productId !== productId))
+    updateServerCart(`/lines/${encodeURIComponent(productId)}`, { method: 'DELETE' }).catch(reportCartError)
   }
 
   function updateQuantity(productId: string, quantity: number) {
     if (quantity <= 0) {
       removeFromCart(productId)
     } else {
-      setCart((prev) =>
-        prev.map((l) =>
-          l.productId === productId ? { ...l, quantity } : l
-        )
-      )
+      updateServerCart(`/lines/${encodeURIComponent(productId)}`, { method: 'PUT', body: JSON.stringify({ quantity }) })
+        .catch(reportCartError)
     }
   }
 
   async function onCheckoutClick() {
     setIsCheckingOut(true)
     setCheckoutError(null)
+    const idempotencyKey = (checkoutKeyRef.current ??= crypto.randomUUID())
 
     const cartValueMinor = cart.reduce((sum, line) => {
       const product = products.find((p) => p.id === line.productId)
@@ -519,41 +1276,70 @@ function App() {
         attributes: {
           'cart.item_count': cartCount,
           'cart.value_minor': cartValueMinor,
-          'cart.currency': 'USD',
+          'cart.currency': currency,
           'payment.provider.ui_selected': paymentProvider,
+          'promo.applied': !!quote?.promotion,
         },
       },
       async (span) => {
         try {
-          const response = await fetch(`${API_URL}/api/checkout`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ items: cart, paymentProvider }),
-          })
+          const request = () =>
+            fetch(`${API_URL}/api/checkout`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+              body: JSON.stringify({
+                cartId: cartIdRef.current ?? undefined,
+                paymentProvider,
+                currency,
+                promoCode: quote?.promotion?.code,
+                region: quote?.region,
+                shippingMethod: quote?.shippingMethod,
+                quoteId: quote?.id,
+              }),
+            })
+          // A network error may hide a charge that went through; the same key makes the retry safe
+          const response = await request().catch(request)
           if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ error: 'Payment failed' }))
-            throw new Error(errorData.error || `HTTP ${response.status}`)
+            const error = await readApiError(response)
+            // Prices moved under us: show the fresh quote so the shopper can confirm the new total
+            const fresh = quoteSchema(error.context.quote)
+            if (fresh.ok) setQuote(fresh.value)
+            throw error
           }
-          const data: { orderId: string; paymentProvider: string } = await response.json()
+          const data = await readResponse(response, checkoutResponseSchema)
           span.setAttribute('order.id', data.orderId)
           span.setAttribute('payment.provider', data.paymentProvider)
+          span.setAttribute('payment.attempts', data.paymentAttempts)
+          span.setAttribute('payment.confirmation', response.status === 202 ? 'async' : 'sync')
           Sentry.logger.info(Sentry.logger.fmt`✨ Order ${data.orderId} confirmed via ${data.paymentProvider}`)
           
           // Show order confirmation
           setOrderConfirmation({
             orderId: data.orderId,
+            status: data.status,
             provider: data.paymentProvider,
-            total: cartValueMinor
+            requestedProvider: data.requestedPaymentProvider,
+            attempts: data.paymentAttempts,
+            total: data.totalMinor,
+            currency: data.currency
           })
+          cartIdRef.current = null
           setCart([])
+          setPromoCode(null)
           setIsCartOpen(false)
         } catch (err) {
           span.setStatus({ code: 2, message: 'internal_error' })
-          const errorMessage = err instanceof Error ? err.message : 'Checkout failed'
-          setCheckoutError(errorMessage)
-          Sentry.logger.error(Sentry.logger.fmt`❌ ${errorMessage}`)
+          if (err instanceof ApiRequestError) {
+            span.setAttribute('error.code', err.code ?? `HTTP_${err.status}`)
+            span.setAttribute('error.retryable', err.retryable)
+          }
+          const toast = checkoutErrorToast(err, cart, products, providerConfig)
+          setCheckoutError(toast)
+          Sentry.logger.error(Sentry.logger.fmt`❌ ${toast.code ?? 'CHECKOUT_FAILED'}: ${toast.message}`)
         } finally {
+          checkoutKeyRef.current = null
           setIsCheckingOut(false)
+          loadProducts(currency)
         }
       }
     )
@@ -588,29 +1374,61 @@ function App() {
               </div>
             </motion.div>
 
-            <motion.button
-              id="cart-button"
-              initial={{ opacity: 0, x: 20 }}
-              animate={{ opacity: 1, x: 0 }}
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-              onClick={() => setIsCartOpen(true)}
-              className="relative flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 hover:bg-white/20 transition-all"
-            >
-              <ShoppingBag className="w-5 h-5 text-white" />
-              <span className="text-white font-medium">Cart</span>
-              {cartCount > 0 && (
-                <motion.span
-                  key={cartCount}
-                  initial={{ scale: 0 }}
-                  animate={{ scale: 1 }}
-                  transition={{ type: "spring", stiffness: 500, damping: 15 }}
-                  className="absolute -top-2 -right-2 h-6 w-6 rounded-full bg-gradient-to-r from-purple-600 to-pink-600 text-white text-xs font-bold grid place-items-center"
-                >
-                  {cartCount}
-                </motion.span>
-              )}
-            </motion.button>
+            <div className="flex items-center gap-3">
+              <motion.select
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                value={currency}
+                onChange={(e) => loadProducts(e.target.value)}
+                data-testid="currency-select"
+                aria-label="Currency"
+                className="px-3 py-2 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 text-white text-sm font-medium hover:bg-white/20 transition-all"
+              >
+                {currencies.map((code) => (
+                  <option key={code} value={code} className="bg-slate-900">
+                    {code}
+                  </option>
+                ))}
+              </motion.select>
+
+              <motion.button
+                id="config-button"
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => setIsConfigOpen(true)}
+                aria-label="Payment provider settings"
+                className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 hover:bg-white/20 transition-all"
+              >
+                <SlidersHorizontal className="w-5 h-5 text-white" />
+                <span className="text-white font-medium hidden sm:inline">Providers</span>
+              </motion.button>
+
+              <motion.button
+                id="cart-button"
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => setIsCartOpen(true)}
+                className="relative flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 hover:bg-white/20 transition-all"
+              >
+                <ShoppingBag className="w-5 h-5 text-white" />
+                <span className="text-white font-medium">Cart</span>
+                {cartCount > 0 && (
+                  <motion.span
+                    key={cartCount}
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    transition={{ type: "spring", stiffness: 500, damping: 15 }}
+                    className="absolute -top-2 -right-2 h-6 w-6 rounded-full bg-gradient-to-r from-purple-600 to-pink-600 text-white text-xs font-bold grid place-items-center"
+                  >
+                    {cartCount}
+                  </motion.span>
+                )}
+              </motion.button>
+            </div>
           </div>
         </div>
       </motion.header>
@@ -630,6 +1448,30 @@ function App() {
         )}
       </AnimatePresence>
 
+      {/* Cart Notice */}
+      <AnimatePresence>
+        {cartNotice && (
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="fixed top-36 left-1/2 transform -translate-x-1/2 z-50 max-w-md"
+            data-testid="cart-notice"
+          >
+            <div className="flex items-center gap-3 rounded-xl bg-amber-500/20 border border-amber-500/30 backdrop-blur-sm px-6 py-4">
+              <AlertCircle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+              <p className="text-white">{cartNotice}</p>
+              <button
+                onClick={() => setCartNotice(null)}
+                className="ml-auto text-white/60 hover:text-white"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Hero Section */}
       <HeroSection />
 
@@ -642,9 +1484,29 @@ function App() {
             exit={{ opacity: 0, y: -20 }}
             className="fixed top-20 left-1/2 transform -translate-x-1/2 z-50 max-w-md"
           >
-            <div className="flex items-center gap-3 rounded-xl bg-red-500/20 border border-red-500/30 backdrop-blur-sm px-6 py-4">
+            <div
+              data-testid="error-toast"
+              data-error-code={checkoutError.code}
+              className="flex items-center gap-3 rounded-xl bg-red-500/20 border border-red-500/30 backdrop-blur-sm px-6 py-4"
+            >
               <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
-              <p className="text-white">{checkoutError}</p>
+              <div>
+                <p className="text-white">{checkoutError.message}</p>
+                {checkoutError.eventId && (
+                  <p data-testid="error-toast-event-id" className="text-xs text-white/60 select-all">
+                    Reference: {checkoutError.eventId}
+                  </p>
+                )}
+              </div>
+              {checkoutError.action && (
+                <button
+                  data-testid="error-toast-action"
+                  onClick={() => checkoutError.action && runRecovery(checkoutError.action.recovery)}
+                  className="flex-shrink-0 rounded-full bg-white/10 border border-white/20 px-3 py-1 text-sm font-medium text-white hover:bg-white/20 transition-all"
+                >
+                  {checkoutError.action.label}
+                </button>
+              )}
               <button 
                 onClick={() => setCheckoutError(null)}
                 className="ml-auto text-white/60 hover:text-white"
@@ -683,8 +1545,24 @@ function App() {
                   <CheckCircle className="w-12 h-12" />
                 </motion.div>
                 
-                <h2 className="text-2xl font-bold text-white mb-2">Order Confirmed!</h2>
-                <p className="text-white/60 mb-6">Your bugs are on their way</p>
+                {orderStatus === 'pending_payment' ? (
+                  <>
+                    <h2 className="text-2xl font-bold text-white mb-2">Order Placed!</h2>
+                    <p className="text-white/60 mb-6">Waiting for {orderConfirmation.provider} to confirm your payment</p>
+                  </>
+                ) : orderStatus === 'failed' ? (
+                  <>
+                    <h2 className="text-2xl font-bold text-white mb-2">Payment Declined</h2>
+                    <p className="text-white/60 mb-6">{orderConfirmation.provider} didn't accept the payment</p>
+                  </>
+                ) : (
+                  <>
+                    <h2 className="text-2xl font-bold text-white mb-2">Order Confirmed!</h2>
+                    <p className="text-white/60 mb-6">Your bugs are on their way</p>
+                  </>
+                )}
+
+                <OrderStatusTracker status={orderStatus ?? 'pending_payment'} reconnecting={!!liveOrder?.reconnecting} />
                 
                 <div className="space-y-3 text-left bg-white/5 rounded-xl p-4 mb-6">
                   <div className="flex justify-between">
@@ -693,11 +1571,20 @@ function App() {
                   </div>
                   <div className="flex justify-between">
                     <span className="text-white/60">Payment Provider</span>
-                    <span className="text-white">{orderConfirmation.provider}</span>
+                    <span className="text-white">
+                      {orderConfirmation.provider}
+                      {orderConfirmation.provider !== orderConfirmation.requestedProvider && (
+                        <span className="text-white/60 text-sm"> (failover from {orderConfirmation.requestedProvider})</span>
+                      )}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-white/60">Payment Attempts</span>
+                    <span className="text-white">{orderConfirmation.attempts}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-white/60">Total</span>
-                    <span className="text-white font-bold">{formatMoney(orderConfirmation.total)}</span>
+                    <span className="text-white font-bold">{formatMoney(orderConfirmation.total, orderConfirmation.currency)}</span>
                   </div>
                 </div>
                 
@@ -762,6 +1649,15 @@ function App() {
         </div>
       </section>
 
+      {/* Payment Provider Control Panel */}
+      <PaymentConfigPanel
+        isOpen={isConfigOpen}
+        onClose={() => setIsConfigOpen(false)}
+        config={providerConfig}
+        onChange={updateProviderConfig}
+        onReset={resetProviderConfig}
+      />
+
       {/* Cart Drawer */}
       <CartDrawer
         isOpen={isCartOpen}
@@ -775,6 +1671,12 @@ function App() {
         onChangeProvider={setPaymentProvider}
         providerConfig={providerConfig}
         products={products}
+        currency={currency}
+        quote={quote}
+        onApplyPromo={setPromoCode}
+        onRemovePromo={() => setPromoCode(null)}
+        onChangeRegion={setRegion}
+        onChangeShipping={setShippingMethod}
       />
 
       {/* Footer */}
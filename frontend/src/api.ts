@@ -0,0 +1,85 @@
+// Reading API responses: bodies are checked against the shared contract, errors become ApiRequestError
+import * as Sentry from '@sentry/react'
+import { type ErrorCode, type ErrorDetail, errorBodySchema, type Validator } from '../../contract/src'
+
+// A non-2xx API response. `code` is undefined when the body wasn't an envelope (e.g. a proxy's HTML page).
+export class ApiRequestError extends Error {
+  readonly status: number
+  readonly code: ErrorCode | undefined
+  readonly retryable: boolean
+  readonly details: ErrorDetail[]
+  // Sentry event the backend reported an unexpected failure as; worth showing so it can be quoted
+  readonly eventId: string | undefined
+  // Whatever the response carried next to `error`, e.g. a fresh quote or the available stock
+  readonly context: Record<string, unknown>
+
+  constructor(
+    status: number,
+    message: string,
+    fields: {
+      code?: ErrorCode
+      retryable: boolean
+      details?: ErrorDetail[]
+      eventId?: string
+      context: Record<string, unknown>
+    }
+  ) {
+    super(message)
+    this.name = 'ApiRequestError'
+    this.status = status
+    this.code = fields.code
+    this.retryable = fields.retryable
+    this.details = fields.details ?? []
+    this.eventId = fields.eventId
+    this.context = fields.context
+  }
+}
+
+// A 2xx response whose body doesn't match the contract: the frontend and backend have drifted apart
+export class ContractViolationError extends Error {
+  readonly issues: ErrorDetail[]
+
+  constructor(url: string, issues: ErrorDetail[]) {
+    super(`Unexpected response from ${url}: ${issues.map((i) => i.message).join('; ')}`)
+    this.name = 'ContractViolationError'
+    this.issues = issues
+  }
+}
+
+// Builds the error for a failed response from its already-parsed body and `Sentry-Event-Id` header
+export function apiErrorFrom(status: number, body: unknown, eventIdHeader?: string | null): ApiRequestError {
+  const context: Record<string, unknown> = { ...(body as Record<string, unknown> | null) }
+  delete context.error
+  const envelope = errorBodySchema(body)
+  if (envelope.ok) {
+    const { code, message, retryable, details, eventId = eventIdHeader ?? undefined } = envelope.value.error
+    return new ApiRequestError(status, message, { code, retryable, details, eventId, context })
+  }
+  // Gateways answer 502-504 without our envelope; those are worth another try
+  return new ApiRequestError(status, `HTTP ${status}`, {
+    retryable: status >= 502,
+    eventId: eventIdHeader ?? undefined,
+    context,
+  })
+}
+
+// Reads a failed response's body (which may not be JSON) into an ApiRequestError
+export async function readApiError(response: Response): Promise<ApiRequestError> {
+  const body = await response.json().catch(() => null)
+  return apiErrorFrom(response.status, body, response.headers.get('Sentry-Event-Id'))
+}
+
+// Checks an already-parsed body against its schema; a mismatch is reported to Sentry and thrown
+export function expectContract<T>(schema: Validator<T>, body: unknown, url: string): T {
+  const result = schema(body)
+  if (result.ok) return result.value
+  const err = new ContractViolationError(url, result.issues)
+  Sentry.captureException(err, { extra: { issues: result.issues } })
+  throw err
+}
+
+// The validated body of a successful response, or the ApiRequestError for a failed one
+export async function readResponse<T>(response: Response, schema: Validator<T>): Promise<T> {
+  if (!response.ok) throw await readApiError(response)
+  return expectContract(schema, await response.json(), response.url)
+}
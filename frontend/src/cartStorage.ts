@@ -0,0 +1,72 @@
+// What the storefront keeps in localStorage so the cart survives reloads and is shared across tabs
+
+export const CART_STORAGE_KEY = 'crash-commerce.cart'
+
+// Bump when StoredCart changes shape, and teach migrate() to read the previous version
+const CART_STORAGE_VERSION = 2
+
+// v1 only remembered the server-side cart id, under its own key
+const LEGACY_CART_ID_KEY = 'crash-commerce.cartId'
+
+export type StoredCartLine = { productId: string; quantity: number }
+
+export type StoredCart = {
+  cartId: string | null
+  lines: StoredCartLine[]
+  paymentProvider: string | null
+}
+
+const EMPTY: StoredCart = { cartId: null, lines: [], paymentProvider: null }
+
+function isLine(value: unknown): value is StoredCartLine {
+  const line = value as StoredCartLine
+  return typeof line?.productId === 'string' && Number.isInteger(line.quantity) && line.quantity > 0
+}
+
+function migrate(data: unknown): StoredCart {
+  const stored = data as Partial<StoredCart> & { version?: number }
+  // Unknown (e.g. newer) versions are dropped rather than half-read
+  if (stored?.version !== CART_STORAGE_VERSION) return EMPTY
+  return {
+    cartId: typeof stored.cartId === 'string' ? stored.cartId : null,
+    lines: Array.isArray(stored.lines) ? stored.lines.filter(isLine) : [],
+    paymentProvider: typeof stored.paymentProvider === 'string' ? stored.paymentProvider : null,
+  }
+}
+
+// Parses a raw storage value, e.g. from a `storage` event; anything unreadable is an empty cart
+export function parseStoredCart(raw: string | null): StoredCart {
+  if (raw === null) return EMPTY
+  try {
+    return migrate(JSON.parse(raw))
+  } catch {
+    return EMPTY
+  }
+}
+
+export function loadStoredCart(): StoredCart {
+  try {
+    const legacyCartId = localStorage.getItem(LEGACY_CART_ID_KEY)
+    if (legacyCartId !== null) {
+      localStorage.removeItem(LEGACY_CART_ID_KEY)
+      return { ...EMPTY, cartId: legacyCartId }
+    }
+    return parseStoredCart(localStorage.getItem(CART_STORAGE_KEY))
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies); start empty
+    return EMPTY
+  }
+}
+
+export function saveStoredCart(cart: StoredCart) {
+  try {
+    // Fixed key order, so an unchanged cart writes an identical string and other tabs see no event
+    const { cartId, lines, paymentProvider } = cart
+    localStorage.setItem(
+      CART_STORAGE_KEY,
+      JSON.stringify({ version: CART_STORAGE_VERSION, cartId, lines, paymentProvider })
+    )
+  } catch {
+    // Best effort; the server-side cart is still there
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  flag,
+  json,
+  numeric,
+  number,
+  object,
+  optional,
+  parseEnv,
+  type SampleRule,
+  sampleRulesSchema,
+  string,
+  url,
+} from '../../contract/src'
+
+/*
+  Build-time settings from `VITE_*` variables, validated before anything renders: a bad value
+  throws a ConfigError listing every problem instead of silently breaking tracing. All optional:
+    VITE_API_URL                       backend origin (default http://localhost:5174)
+    VITE_SENTRY_DSN                    no DSN, no events
+    VITE_SENTRY_ENVIRONMENT            defaults to Vite's mode (`development`, `production`)
+    VITE_SENTRY_RELEASE                e.g. a git sha
+    VITE_SENTRY_DEBUG                  SDK debug logging (default false)
+    VITE_SENTRY_TRACES_SAMPLE_RATE     rate for traces no rule matches (default 1)
+    VITE_SENTRY_TRACES_SAMPLER_RULES   JSON array of `{ route?, op?, rate }`, replacing the defaults below
+*/
+const envSchema = object({
+  VITE_API_URL: optional(url()),
+  VITE_SENTRY_DSN: optional(url()),
+  VITE_SENTRY_ENVIRONMENT: optional(string({ min: 1 })),
+  VITE_SENTRY_RELEASE: optional(string({ min: 1 })),
+  VITE_SENTRY_DEBUG: optional(flag()),
+  VITE_SENTRY_TRACES_SAMPLE_RATE: optional(numeric(number({ min: 0, max: 1 }))),
+  VITE_SENTRY_TRACES_SAMPLER_RULES: optional(json(sampleRulesSchema)),
+  MODE: string(),
+})
+
+const env = parseEnv(envSchema, import.meta.env)
+
+// Checkout is the `Checkout` ui.action span; keep every one of them
+const DEFAULT_SAMPLER_RULES: SampleRule[] = [{ op: 'ui.action', rate: 1 }]
+
+export const API_URL = env.VITE_API_URL ?? 'http://localhost:5174'
+
+export const sentryConfig = {
+  dsn: env.VITE_SENTRY_DSN,
+  environment: env.VITE_SENTRY_ENVIRONMENT ?? env.MODE,
+  release: env.VITE_SENTRY_RELEASE,
+  debug: env.VITE_SENTRY_DEBUG ?? false,
+  tracesSampleRate: env.VITE_SENTRY_TRACES_SAMPLE_RATE ?? 1,
+  tracesSamplerRules: env.VITE_SENTRY_TRACES_SAMPLER_RULES ?? DEFAULT_SAMPLER_RULES,
+  // Only requests to our own API carry sentry-trace and baggage
+  tracePropagationTargets: [new URL(API_URL).origin],
+}
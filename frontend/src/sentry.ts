@@ -1,20 +1,29 @@
 import * as Sentry from '@sentry/react'
+import { sampleRateFor } from '../../contract/src'
+import { sentryConfig } from './config'
 
 Sentry.init({
+  dsn: sentryConfig.dsn,
+  environment: sentryConfig.environment,
+  release: sentryConfig.release,
+  debug: sentryConfig.debug,
 
-  // Import your Sentry DSN from your project
-  dsn: import.meta.env.VITE_SENTRY_DSN,
+  // The first matching rule decides; other traces follow their parent, else the default rate
+  tracesSampler: ({ attributes, inheritOrSampleWith }) => {
+    const op = attributes?.['sentry.op']
+    const rate = sampleRateFor(sentryConfig.tracesSamplerRules, {
+      path: window.location.pathname,
+      op: typeof op === 'string' ? op : undefined,
+    })
+    return rate ?? inheritOrSampleWith(sentryConfig.tracesSampleRate)
+  },
 
-  // Set the sample rate for traces to 100%
-  tracesSampleRate: 1.0,
-
-  // Set the trace propagation targets to the backend API
-  tracePropagationTargets: ['localhost:3005'],
+  // Attach sentry-trace and baggage to backend API calls
+  tracePropagationTargets: sentryConfig.tracePropagationTargets,
 
   // Add the browser tracing integration
   integrations: [Sentry.browserTracingIntegration()],
 
   // Add the logger integration
   enableLogs: true,
-  debug: true,
 })
@@ -6,5 +6,7 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 5173,
+    // API types and validators are shared with the backend from ../contract
+    fs: { allow: ['.', '../contract'] },
   },
 })
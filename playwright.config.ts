@@ -2,11 +2,15 @@ import { defineConfig, devices } from '@playwright/test'
 
 export default defineConfig({
   testDir: './tests/playwright',
+  // Instrumentation tests need the app wired to the local Sentry sink; see playwright.instrumentation.config.ts.
+  // Simulation tests run the backend in-process; see playwright.simulation.config.ts
+  testIgnore: ['**/*.instrumentation.spec.ts', '**/*.simulation.spec.ts'],
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
   workers: process.env.CI ? 1 : 5,
-  reporter: [['list'], ['html']],
+  // load-report writes results.json/report.html and fails the run when a checkout SLO is breached
+  reporter: [['list'], ['html'], ['./tests/playwright/load-report.reporter.ts']],
   timeout: 60_000,
   use: {
     baseURL: process.env.BASE_URL || 'http://localhost:5173',
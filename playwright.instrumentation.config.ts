@@ -0,0 +1,65 @@
+import { defineConfig, devices } from '@playwright/test'
+
+/*
+  Instrumentation contract tests: the app runs on its own ports with both DSNs pointed at the
+  local Sentry sink (scripts/sentry-sink.js), and the tests query what the SDKs sent.
+  Payments never fail here, so every checkout produces the full trace.
+*/
+const SINK_PORT = Number(process.env.SINK_PORT || 8999)
+const BACKEND_PORT = 5184
+const FRONTEND_PORT = 5183
+const DSN = `http://public@localhost:${SINK_PORT}/1`
+
+export default defineConfig({
+  testDir: './tests/playwright',
+  testMatch: '**/*.instrumentation.spec.ts',
+  forbidOnly: !!process.env.CI,
+  // Tests share the sink; they filter by trace id, but one at a time keeps failures readable
+  workers: 1,
+  reporter: [['list']],
+  timeout: 60_000,
+  use: {
+    baseURL: `http://localhost:${FRONTEND_PORT}`,
+    trace: 'retain-on-failure',
+  },
+  projects: [
+    {
+      name: 'chromium',
+      use: { ...devices['Desktop Chrome'] },
+    },
+  ],
+  // Never reuse a running dev server: it would report to the real Sentry project
+  webServer: [
+    {
+      command: 'node scripts/sentry-sink.js',
+      url: `http://localhost:${SINK_PORT}/health`,
+      env: { SINK_PORT: String(SINK_PORT) },
+      reuseExistingServer: false,
+    },
+    {
+      command: 'npm --prefix backend run dev',
+      url: `http://localhost:${BACKEND_PORT}/api/health`,
+      env: {
+        PORT: String(BACKEND_PORT),
+        SENTRY_DSN: DSN,
+        PAYMENT_CONFIRMATION: 'sync',
+        PAYMENT_ZAPPAY_FAILURE_RATE: '0',
+        PAYMENT_GLITCHPAY_FAILURE_RATE: '0',
+        PAYMENT_LAGPAY_FAILURE_RATE: '0',
+        CHAOS_SCENARIO: '',
+      },
+      reuseExistingServer: false,
+      timeout: 120_000,
+    },
+    {
+      command: `npm --prefix frontend run dev -- --port ${FRONTEND_PORT} --strictPort`,
+      url: `http://localhost:${FRONTEND_PORT}`,
+      env: {
+        VITE_SENTRY_DSN: DSN,
+        VITE_API_URL: `http://localhost:${BACKEND_PORT}`,
+      },
+      reuseExistingServer: false,
+      timeout: 120_000,
+    },
+  ],
+})
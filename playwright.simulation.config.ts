@@ -0,0 +1,17 @@
+import { defineConfig } from '@playwright/test'
+
+/*
+  Simulation tests: they build the backend app in-process with a seeded simulation and talk to it
+  over HTTP, so there is no dev server to start and no browser to drive.
+*/
+process.env.LOG_LEVEL ??= 'warn'
+
+export default defineConfig({
+  testDir: './tests/playwright',
+  testMatch: '**/*.simulation.spec.ts',
+  forbidOnly: !!process.env.CI,
+  // Apps in one process share module state (see createApp), so one worker runs them in turn
+  workers: 1,
+  reporter: [['list']],
+  timeout: 60_000,
+})
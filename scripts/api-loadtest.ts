@@ -0,0 +1,363 @@
+/*
+  Browserless load driver: simulated users call the API directly, so a laptop can push the
+  backend to hundreds of requests per second. Open model: users arrive at the profile's rate
+  whether or not earlier ones have finished, up to MAX_CONCURRENCY users in flight (arrivals over
+  the cap are dropped and counted). Every user is one trace: its requests carry `sentry-trace`
+  and `baggage` as the browser SDK would send them.
+
+  Environment:
+  - API_URL (default http://localhost:5174)
+  - PROFILE: `constant` (RATE users/s) or `ramp` (RAMP_FROM → RAMP_TO users/s), default constant
+  - RATE (default 50), RAMP_FROM (default 10), RAMP_TO (default 200), DURATION_S (default 60)
+  - MAX_CONCURRENCY (default 200)
+  - PERSONAS: weights, e.g. `regular=5,big-cart=1,lagpay-lover=2,window-shopper=3` (the default)
+  - TRACE_SAMPLE_RATE (default 1): share of users whose trace is marked sampled
+  - REPORT_INTERVAL_MS (default 1000): how often the live histogram is printed
+  - RESTOCK_INTERVAL_S (default 10): stock is reset to the backend's seed levels (POST
+    /api/inventory/reset) at the start and then this often; 0 only resets at the start
+  - MAX_SOLD_OUT_RATE (default 0.5): the run fails when more of the users who came to buy found
+    nothing in stock
+
+  Usage: npm run loadtest:api   (or PROFILE=ramp RAMP_TO=400 DURATION_S=120 npm run loadtest:api)
+*/
+
+import { randomBytes, randomUUID } from 'node:crypto'
+import {
+  type CheckoutRequest,
+  errorBodySchema,
+  PAYMENT_PROVIDERS,
+  type PaymentProvider,
+  type Product,
+  productsSchema,
+} from '../contract/src'
+
+const API_URL = process.env.API_URL || 'http://localhost:5174'
+const PROFILE = process.env.PROFILE || 'constant'
+const RATE = Number(process.env.RATE || 50)
+const RAMP_FROM = Number(process.env.RAMP_FROM || 10)
+const RAMP_TO = Number(process.env.RAMP_TO || 200)
+const DURATION_S = Number(process.env.DURATION_S || 60)
+const MAX_CONCURRENCY = Number(process.env.MAX_CONCURRENCY || 200)
+const TRACE_SAMPLE_RATE = Number(process.env.TRACE_SAMPLE_RATE ?? 1)
+const REPORT_INTERVAL_MS = Number(process.env.REPORT_INTERVAL_MS || 1000)
+const RESTOCK_INTERVAL_S = Number(process.env.RESTOCK_INTERVAL_S ?? 10)
+const MAX_SOLD_OUT_RATE = Number(process.env.MAX_SOLD_OUT_RATE ?? 0.5)
+const REQUEST_TIMEOUT_MS = 30_000
+
+// Latency histogram bucket upper bounds; the last bucket is everything slower
+const BUCKETS_MS = [25, 50, 100, 200, 400, 800, 1600, 3200]
+
+// ---- Arrival profiles ---------------------------------------------------------------------
+
+// Users per second `elapsedS` seconds into the run
+type Profile = (elapsedS: number) => number
+
+function profileFromEnv(): Profile {
+  if (PROFILE === 'constant') return () => RATE
+  if (PROFILE === 'ramp') return (t) => RAMP_FROM + ((RAMP_TO - RAMP_FROM) * Math.min(t, DURATION_S)) / DURATION_S
+  throw new Error(`Unknown PROFILE ${PROFILE}; use constant or ramp`)
+}
+
+// ---- Tracing headers ----------------------------------------------------------------------
+
+type Trace = { traceId: string; sampled: boolean; sampleRand: number }
+
+function newTrace(): Trace {
+  const sampleRand = Math.random()
+  return { traceId: randomBytes(16).toString('hex'), sampled: sampleRand < TRACE_SAMPLE_RATE, sampleRand }
+}
+
+// What the browser SDK attaches to API calls: a fresh span id per request under the user's trace
+function traceHeaders(trace: Trace, persona: string): Record<string, string> {
+  const spanId = randomBytes(8).toString('hex')
+  const baggage = [
+    `sentry-trace_id=${trace.traceId}`,
+    'sentry-environment=loadtest',
+    `sentry-transaction=${encodeURIComponent(`loadtest ${persona}`)}`,
+    `sentry-sample_rate=${TRACE_SAMPLE_RATE}`,
+    `sentry-sample_rand=${trace.sampleRand.toFixed(6)}`,
+    `sentry-sampled=${trace.sampled}`,
+  ]
+  return {
+    'sentry-trace': `${trace.traceId}-${spanId}-${trace.sampled ? 1 : 0}`,
+    baggage: baggage.join(','),
+  }
+}
+
+// ---- Measurements -------------------------------------------------------------------------
+
+type Endpoint = 'GET /api/products' | 'POST /api/checkout'
+
+class Histogram {
+  counts = new Array<number>(BUCKETS_MS.length + 1).fill(0)
+  samples: number[] = []
+  statuses = new Map<string, number>()
+
+  record(ms: number, outcome: string) {
+    const i = BUCKETS_MS.findIndex((bound) => ms <= bound)
+    this.counts[i === -1 ? BUCKETS_MS.length : i] += 1
+    this.samples.push(ms)
+    this.statuses.set(outcome, (this.statuses.get(outcome) ?? 0) + 1)
+  }
+
+  percentile(p: number): number | undefined {
+    if (this.samples.length === 0) return undefined
+    const sorted = [...this.samples].sort((a, b) => a - b)
+    return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]
+  }
+}
+
+type Window = { histograms: Map<Endpoint, Histogram>; arrivals: number; dropped: number; soldOut: number }
+
+function newWindow(): Window {
+  return { histograms: new Map(), arrivals: 0, dropped: 0, soldOut: 0 }
+}
+
+// `current` is reset after every live report; `total` covers the whole run
+let current = newWindow()
+const total = newWindow()
+let inFlight = 0
+
+function histogram(window: Window, endpoint: Endpoint): Histogram {
+  let h = window.histograms.get(endpoint)
+  if (!h) window.histograms.set(endpoint, (h = new Histogram()))
+  return h
+}
+
+function count(key: 'arrivals' | 'dropped' | 'soldOut') {
+  current[key] += 1
+  total[key] += 1
+}
+
+// Times one request; the outcome is the status, plus the error code for envelopes (e.g. `402 PAYMENT_DECLINED`)
+async function request(endpoint: Endpoint, url: string, init: RequestInit): Promise<unknown> {
+  const started = performance.now()
+  let outcome = 'network error'
+  try {
+    const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+    const body: unknown = await response.json().catch(() => undefined)
+    const envelope = errorBodySchema(body)
+    outcome = envelope.ok ? `${response.status} ${envelope.value.error.code}` : String(response.status)
+    return response.ok ? body : undefined
+  } catch (err) {
+    if (err instanceof Error && err.name === 'TimeoutError') outcome = 'timeout'
+    return undefined
+  } finally {
+    const ms = performance.now() - started
+    histogram(current, endpoint).record(ms, outcome)
+    histogram(total, endpoint).record(ms, outcome)
+  }
+}
+
+// ---- Personas -----------------------------------------------------------------------------
+
+type User = { persona: string; trace: Trace }
+
+function randomInt(min: number, max: number) {
+  return Math.floor(Math.random() * (max - min + 1)) + min
+}
+
+function pick<T>(items: readonly T[]): T {
+  return items[randomInt(0, items.length - 1)]
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// The catalog, or undefined when the request failed (already counted in its histogram)
+async function browse(user: User): Promise<Product[] | undefined> {
+  const body = await request('GET /api/products', `${API_URL}/api/products`, { headers: traceHeaders(user.trace, user.persona) })
+  const products = productsSchema(body)
+  return products.ok ? products.value : undefined
+}
+
+// Fills a cart from what is still in stock; undefined when nothing is left to buy
+function fillCart(products: Product[], lines: number, maxQuantity: number): CheckoutRequest['items'] {
+  const inStock = products.filter((p) => p.available > 0).sort(() => Math.random() - 0.5)
+  if (inStock.length === 0) return undefined
+  return inStock.slice(0, lines).map((p) => ({ productId: p.id, quantity: Math.min(randomInt(1, maxQuantity), p.available) }))
+}
+
+async function checkout(user: User, items: CheckoutRequest['items'], paymentProvider: PaymentProvider) {
+  if (!items) {
+    count('soldOut')
+    return
+  }
+  const body: CheckoutRequest = { items, paymentProvider }
+  await request('POST /api/checkout', `${API_URL}/api/checkout`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': randomUUID(),
+      ...traceHeaders(user.trace, user.persona),
+    },
+    body: JSON.stringify(body),
+  })
+}
+
+const PERSONAS: Record<string, (user: User) => Promise<void>> = {
+  // Looks around, buys a couple of things with whatever provider
+  regular: async (user) => {
+    const products = await browse(user)
+    if (!products) return
+    await sleep(randomInt(100, 1000))
+    await checkout(user, fillCart(products, randomInt(1, 3), 2), pick(PAYMENT_PROVIDERS))
+  },
+  // Stocks up: every product, several of each
+  'big-cart': async (user) => {
+    const products = await browse(user)
+    if (!products) return
+    await sleep(randomInt(500, 2000))
+    await checkout(user, fillCart(products, 5, 5), pick(PAYMENT_PROVIDERS))
+  },
+  // Always pays with LagPay, the slow one
+  'lagpay-lover': async (user) => {
+    const products = await browse(user)
+    if (!products) return
+    await sleep(randomInt(100, 1000))
+    await checkout(user, fillCart(products, randomInt(1, 2), 1), 'LagPay')
+  },
+  // Browses a few times and leaves without buying
+  'window-shopper': async (user) => {
+    for (let i = randomInt(1, 3); i > 0; i--) {
+      await browse(user)
+      await sleep(randomInt(200, 1500))
+    }
+  },
+}
+
+const DEFAULT_WEIGHTS = 'regular=5,big-cart=1,lagpay-lover=2,window-shopper=3'
+
+function weightsFromEnv(): [string, number][] {
+  const weights = (process.env.PERSONAS || DEFAULT_WEIGHTS).split(',').map((entry): [string, number] => {
+    const [name, weight] = entry.split('=').map((s) => s.trim())
+    if (!(name in PERSONAS)) throw new Error(`Unknown persona ${name}; use ${Object.keys(PERSONAS).join(', ')}`)
+    const value = Number(weight)
+    if (!Number.isFinite(value) || value < 0) throw new Error(`Weight of ${name} must be a non-negative number`)
+    return [name, value]
+  })
+  if (!weights.some(([, w]) => w > 0)) throw new Error('PERSONAS needs at least one positive weight')
+  return weights
+}
+
+function pickPersona(weights: [string, number][]): string {
+  let roll = Math.random() * weights.reduce((sum, [, w]) => sum + w, 0)
+  for (const [name, weight] of weights) {
+    roll -= weight
+    if (roll < 0) return name
+  }
+  return weights[weights.length - 1][0]
+}
+
+// Back to seed stock, so the run keeps buying instead of selling out in its first seconds.
+// Not timed: it is the driver's housekeeping, not load.
+async function restock() {
+  const response = await fetch(`${API_URL}/api/inventory/reset`, { method: 'POST' }).catch(() => undefined)
+  if (!response?.ok) console.error(`Restock failed (${response?.status ?? 'no response'}); products may sell out`)
+}
+
+// ---- Reporting ----------------------------------------------------------------------------
+
+function formatMs(ms: number | undefined): string {
+  return ms === undefined ? '-' : `${Math.round(ms)}ms`
+}
+
+function bar(countInBucket: number, max: number): string {
+  return '█'.repeat(max === 0 ? 0 : Math.round((countInBucket / max) * 30))
+}
+
+// One character per bucket, fastest first, for the live lines
+function sparkline(counts: number[]): string {
+  const max = Math.max(...counts)
+  return counts.map((n) => (n === 0 ? ' ' : '▁▂▃▄▅▆▇█'[Math.min(7, Math.floor((n / max) * 8))])).join('')
+}
+
+// Live windows get a sparkline per endpoint; the totals get the full histogram
+function printWindow(window: Window, seconds: number, label: string, fullHistogram: boolean) {
+  const rate = (window.arrivals / seconds).toFixed(1)
+  console.log(
+    `${label}  users ${rate}/s  in flight ${inFlight}  dropped ${window.dropped}  sold out ${window.soldOut}`
+  )
+  for (const [endpoint, h] of window.histograms) {
+    const rps = (h.samples.length / seconds).toFixed(1)
+    const statuses = [...h.statuses].map(([s, n]) => `${s}:${n}`).join(' ')
+    const latency = `p50 ${formatMs(h.percentile(50))}  p95 ${formatMs(h.percentile(95))}  p99 ${formatMs(h.percentile(99))}`
+    const spark = fullHistogram ? '' : `  ${BUCKETS_MS[0]}ms|${sparkline(h.counts)}|${BUCKETS_MS[BUCKETS_MS.length - 1]}ms+`
+    console.log(`  ${endpoint.padEnd(19)} ${rps.padStart(7)} rps  ${latency}${spark}  [${statuses}]`)
+    if (!fullHistogram) continue
+    const max = Math.max(...h.counts)
+    h.counts.forEach((n, i) => {
+      const bound = i < BUCKETS_MS.length ? `≤${BUCKETS_MS[i]}ms` : `>${BUCKETS_MS[BUCKETS_MS.length - 1]}ms`
+      console.log(`    ${bound.padStart(9)} ${String(n).padStart(7)} ${bar(n, max)}`)
+    })
+  }
+}
+
+// ---- Driver -------------------------------------------------------------------------------
+
+async function main() {
+  const profile = profileFromEnv()
+  const weights = weightsFromEnv()
+  console.log(
+    `API load: ${PROFILE} profile for ${DURATION_S}s → ${API_URL} (max ${MAX_CONCURRENCY} users in flight; ${weights.map(([n, w]) => `${n}=${w}`).join(', ')})`
+  )
+
+  await restock()
+  const users: Promise<void>[] = []
+  const startedAt = performance.now()
+  let lastReport = startedAt
+  let lastRestock = startedAt
+  let due = 0
+
+  // Fluid arrivals: every tick adds rate × dt users and starts the whole ones
+  for (let last = startedAt, now = startedAt; now - startedAt < DURATION_S * 1000; now = performance.now()) {
+    due += (profile((now - startedAt) / 1000) * (now - last)) / 1000
+    last = now
+    for (; due >= 1; due--) {
+      count('arrivals')
+      if (inFlight >= MAX_CONCURRENCY) {
+        count('dropped')
+        continue
+      }
+      const persona = pickPersona(weights)
+      inFlight += 1
+      users.push(
+        PERSONAS[persona]({ persona, trace: newTrace() })
+          .catch((err) => console.error(`${persona} failed:`, err))
+          .finally(() => (inFlight -= 1))
+      )
+    }
+    if (now - lastReport >= REPORT_INTERVAL_MS) {
+      printWindow(current, (now - lastReport) / 1000, `[${((now - startedAt) / 1000).toFixed(0).padStart(4)}s]`, false)
+      current = newWindow()
+      lastReport = now
+    }
+    if (RESTOCK_INTERVAL_S > 0 && now - lastRestock >= RESTOCK_INTERVAL_S * 1000) {
+      lastRestock = now
+      void restock()
+    }
+    await sleep(10)
+  }
+
+  console.log(`Waiting for ${inFlight} users in flight…`)
+  await Promise.all(users)
+  console.log('\nTotals')
+  printWindow(total, (performance.now() - startedAt) / 1000, '[total]', true)
+
+  // Users who found nothing to buy never reached checkout, so the run didn't load it as asked
+  const checkouts = total.histograms.get('POST /api/checkout')?.samples.length ?? 0
+  const soldOutRate = total.soldOut / Math.max(1, total.soldOut + checkouts)
+  if (soldOutRate > MAX_SOLD_OUT_RATE) {
+    console.error(
+      `\n❌ ${(soldOutRate * 100).toFixed(1)}% of buying users found everything sold out (max ${MAX_SOLD_OUT_RATE * 100}%). ` +
+        'Restock more often (RESTOCK_INTERVAL_S) or raise the seed stock (STOCK_<ID> on the backend).'
+    )
+    process.exitCode = 1
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
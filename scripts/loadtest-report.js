@@ -0,0 +1,183 @@
+/*
+  Load-test results: takes one record per simulated checkout and writes
+  - results.json: latency percentiles and error rates overall, by provider and by item count,
+    throughput over time, the SLO checks and the raw flows
+  - report.html: the same as a self-contained page
+  into LOADTEST_OUT_DIR (default loadtest-results/<timestamp>/).
+
+  SLOs follow "Suggested targets for a healthy checkout" in the README:
+  - SLO_UI_P95_MS (default 1200): p95 of the checkout click-to-response time
+  - SLO_PROVIDER_ERROR_RATE (default 0.05): error rate of every payment provider
+
+  A flow record is `{ provider, items, durationMs, status, ok, startedAt, error? }`, where
+  `durationMs` is null when the flow broke before checkout and `status` is the HTTP status of
+  POST /api/checkout (null without a response).
+*/
+
+const fs = require('node:fs')
+const path = require('node:path')
+
+const DEFAULT_TARGETS = {
+  uiP95Ms: Number(process.env.SLO_UI_P95_MS || 1200),
+  providerErrorRate: Number(process.env.SLO_PROVIDER_ERROR_RATE || 0.05),
+}
+
+const THROUGHPUT_BUCKET_MS = Number(process.env.LOADTEST_BUCKET_MS || 5000)
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted, p) {
+  if (sorted.length === 0) return null
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]
+}
+
+function stats(flows) {
+  const durations = flows
+    .map((f) => f.durationMs)
+    .filter((d) => typeof d === 'number')
+    .sort((a, b) => a - b)
+  const errors = flows.filter((f) => !f.ok).length
+  return {
+    flows: flows.length,
+    errors,
+    errorRate: flows.length ? errors / flows.length : 0,
+    p50Ms: percentile(durations, 50),
+    p95Ms: percentile(durations, 95),
+    p99Ms: percentile(durations, 99),
+  }
+}
+
+function statsBy(flows, keyOf) {
+  const groups = new Map()
+  for (const flow of flows) {
+    const key = String(keyOf(flow))
+    groups.set(key, [...(groups.get(key) ?? []), flow])
+  }
+  return Object.fromEntries([...groups].sort(([a], [b]) => a.localeCompare(b, 'en', { numeric: true })).map(([k, g]) => [k, stats(g)]))
+}
+
+// Finished flows per bucket, counted from the first flow's start
+function throughput(flows, bucketMs) {
+  if (flows.length === 0) return []
+  const start = Math.min(...flows.map((f) => f.startedAt))
+  const buckets = []
+  for (const flow of flows) {
+    const end = flow.startedAt + (flow.durationMs ?? 0)
+    const i = Math.floor((end - start) / bucketMs)
+    while (buckets.length <= i) buckets.push({ startMs: buckets.length * bucketMs, flows: 0, errors: 0 })
+    buckets[i].flows += 1
+    if (!flow.ok) buckets[i].errors += 1
+  }
+  return buckets.map((b) => ({ ...b, perSecond: b.flows / (bucketMs / 1000) }))
+}
+
+function percent(rate) {
+  return `${(rate * 100).toFixed(1)}%`
+}
+
+function summarize(flows, targets = DEFAULT_TARGETS) {
+  const overall = stats(flows)
+  const byProvider = statsBy(flows, (f) => f.provider)
+  const checks = [
+    {
+      name: 'UI p95',
+      target: `< ${targets.uiP95Ms} ms`,
+      actual: overall.p95Ms === null ? 'n/a' : `${overall.p95Ms} ms`,
+      ok: overall.p95Ms !== null && overall.p95Ms < targets.uiP95Ms,
+    },
+    ...Object.entries(byProvider).map(([provider, s]) => ({
+      name: `Error rate ${provider}`,
+      target: `< ${percent(targets.providerErrorRate)}`,
+      actual: percent(s.errorRate),
+      ok: s.errorRate < targets.providerErrorRate,
+    })),
+  ]
+  return {
+    generatedAt: new Date().toISOString(),
+    targets,
+    overall,
+    byProvider,
+    byItemCount: statsBy(flows, (f) => f.items),
+    throughput: throughput(flows, THROUGHPUT_BUCKET_MS),
+    throughputBucketMs: THROUGHPUT_BUCKET_MS,
+    checks,
+    passed: checks.every((c) => c.ok),
+    flows,
+  }
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c])
+}
+
+function statsTable(title, label, rows) {
+  const body = Object.entries(rows)
+    .map(
+      ([key, s]) =>
+        `<tr><td>${escapeHtml(key)}</td><td>${s.flows}</td><td>${percent(s.errorRate)}</td><td>${s.p50Ms ?? '–'}</td><td>${s.p95Ms ?? '–'}</td><td>${s.p99Ms ?? '–'}</td></tr>`
+    )
+    .join('')
+  return `<h2>${title}</h2><table><tr><th>${label}</th><th>Flows</th><th>Error rate</th><th>p50 ms</th><th>p95 ms</th><th>p99 ms</th></tr>${body}</table>`
+}
+
+// Bars of finished flows per bucket, errors stacked in red
+function throughputChart(buckets, bucketMs) {
+  if (buckets.length === 0) return ''
+  const width = 720
+  const height = 160
+  const max = Math.max(...buckets.map((b) => b.flows), 1)
+  const barWidth = width / buckets.length
+  const bars = buckets
+    .map((b, i) => {
+      const h = (b.flows / max) * height
+      const eh = (b.errors / max) * height
+      const x = (i * barWidth).toFixed(1)
+      const w = Math.max(barWidth - 2, 1).toFixed(1)
+      return `<rect x="${x}" y="${height - h}" width="${w}" height="${h}" fill="#6366f1"><title>${b.startMs / 1000}s: ${b.flows} flows, ${b.errors} errors</title></rect><rect x="${x}" y="${height - eh}" width="${w}" height="${eh}" fill="#ef4444"/>`
+    })
+    .join('')
+  return `<h2>Throughput (per ${bucketMs / 1000}s)</h2><svg width="${width}" height="${height}" role="img">${bars}</svg>`
+}
+
+function renderHtml(summary) {
+  const checks = summary.checks
+    .map(
+      (c) =>
+        `<tr class="${c.ok ? 'ok' : 'breach'}"><td>${escapeHtml(c.name)}</td><td>${escapeHtml(c.target)}</td><td>${escapeHtml(c.actual)}</td><td>${c.ok ? 'met' : 'BREACHED'}</td></tr>`
+    )
+    .join('')
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Checkout load test ${escapeHtml(summary.generatedAt)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111 }
+  table { border-collapse: collapse; margin-bottom: 1.5rem }
+  th, td { border: 1px solid #ddd; padding: .3rem .7rem; text-align: right }
+  th:first-child, td:first-child { text-align: left }
+  .ok td:last-child { color: #15803d } .breach td:last-child { color: #b91c1c; font-weight: bold }
+</style></head><body>
+<h1>Checkout load test: ${summary.passed ? 'all targets met' : 'targets breached'}</h1>
+<p>${summary.overall.flows} flows, generated ${escapeHtml(summary.generatedAt)}</p>
+<h2>SLO checks</h2><table><tr><th>Check</th><th>Target</th><th>Actual</th><th>Result</th></tr>${checks}</table>
+${statsTable('Overall', 'Scope', { all: summary.overall })}
+${statsTable('By provider', 'Provider', summary.byProvider)}
+${statsTable('By item count', 'Items', summary.byItemCount)}
+${throughputChart(summary.throughput, summary.throughputBucketMs)}
+</body></html>
+`
+}
+
+// Writes results.json and report.html; returns the directory
+function writeReport(summary, outDir = process.env.LOADTEST_OUT_DIR) {
+  const dir = outDir || path.join('loadtest-results', summary.generatedAt.replace(/[:.]/g, '-'))
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(path.join(dir, 'results.json'), `${JSON.stringify(summary, null, 2)}\n`)
+  fs.writeFileSync(path.join(dir, 'report.html'), renderHtml(summary))
+  return dir
+}
+
+function printChecks(summary, log = console.log) {
+  for (const c of summary.checks) {
+    log(`${c.ok ? '✅' : '❌'} ${c.name}: ${c.actual} (target ${c.target})`)
+  }
+}
+
+module.exports = { summarize, writeReport, printChecks }
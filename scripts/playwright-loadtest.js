@@ -1,17 +1,22 @@
 /*
   Lightweight load test using Playwright's programmatic API.
   - Spawns BROWSERS browsers, each with PAGES_PER_BROWSER concurrent pages
+  - Resets stock through the backend (API_URL) first, so earlier runs don't leave products sold out
   - Each page acts as a virtual user:
     * navigates to BASE_URL
-    * randomly adds 1-5 products
+    * randomly adds 1-5 products that are still in stock; with nothing left it skips checkout
     * opens cart and attempts checkout
     * randomly selects a payment method
     * handles expected success/failure and exits
+  - Writes results.json and report.html (see scripts/loadtest-report.js) and exits non-zero
+    when a checkout SLO is breached
 */
 
 const { chromium } = require('playwright')
+const { printChecks, summarize, writeReport } = require('./loadtest-report')
 
 const BASE_URL = process.env.BASE_URL || 'http://localhost:5173'
+const API_URL = process.env.API_URL || 'http://localhost:5174'
 const TOTAL_USERS = Number(process.env.TOTAL_USERS || 500)
 const BATCH_SIZE = Number(process.env.BATCH_SIZE || 5)
 const INTER_BATCH_DELAY_MS = Number(process.env.INTER_BATCH_DELAY_MS || 250)
@@ -25,18 +30,24 @@ function randomInt(min, max) {
   return Math.floor(Math.random() * (max - min + 1)) + min
 }
 
-async function runUserFlow(page) {
-  const addCount = randomInt(1, 5)
+async function runUserFlow(page, provider, addCount) {
   await page.goto(BASE_URL, { waitUntil: 'domcontentloaded' })
 
   // Ensure product buttons are visible
   await page.locator('text=Featured Errors').scrollIntoViewIfNeeded().catch(() => {})
+  await page.waitForSelector('[data-testid="add-npe"]', { timeout: 20_000 })
+
+  // Sold-out products have a disabled Add button; only pick what can still be bought
+  const inStock = []
+  for (const id of PRODUCT_IDS) {
+    if (await page.locator(`[data-testid="add-${id}"]`).first().isEnabled().catch(() => false)) inStock.push(id)
+  }
+  if (inStock.length === 0) return { soldOut: true }
 
   // Choose unique products to add
   const chosen = new Set()
-  while (chosen.size < addCount) {
-    const id = PRODUCT_IDS[randomInt(0, PRODUCT_IDS.length - 1)]
-    chosen.add(id)
+  while (chosen.size < Math.min(addCount, inStock.length)) {
+    chosen.add(inStock[randomInt(0, inStock.length - 1)])
   }
   for (const id of chosen) {
     const locator = page.locator(`[data-testid="add-${id}"]`).first()
@@ -48,59 +59,76 @@ async function runUserFlow(page) {
   // Open cart
   await page.click('#cart-button', { timeout: 10_000 })
 
-  // Choose random payment provider
-  const provider = PAYMENT_PROVIDERS[randomInt(0, PAYMENT_PROVIDERS.length - 1)]
+  // Pay with the provider this user was given
   await page.click(`[data-testid="payment-${provider}"]`, { timeout: 10_000 })
 
   // Attempt checkout and wait for backend response
   const start = Date.now()
-  let status = 'unknown'
+  let status = null
   try {
     const [resp] = await Promise.all([
       page.waitForResponse(
-        (r) => r.url().includes('/api/checkout') && r.request().method() === 'POST',
+        (r) => new URL(r.url()).pathname === '/api/checkout' && r.request().method() === 'POST',
         { timeout: 20_000 }
       ).catch(() => undefined),
       page.click('#checkout-button', { timeout: 10_000 })
     ])
-    if (resp) {
-      status = `${resp.status()} ${resp.ok() ? 'ok' : 'error'}`
-    }
+    if (resp) status = resp.status()
   } catch (e) {
-    status = 'exception'
-  } finally {
-    const duration = Date.now() - start
-    if (DEBUG_FLOW) {
-      console.log(`Flow result: provider=${provider} status=${status} duration=${duration}ms`)
-    }
-    return { provider, duration, status }
+    // No response: counted as an error below
+  }
+  const duration = Date.now() - start
+  if (DEBUG_FLOW) {
+    console.log(`Flow result: provider=${provider} status=${status ?? 'none'} duration=${duration}ms`)
   }
+  return { duration, status, items: chosen.size }
+}
+
+// Puts stock back to the backend's seed levels (see STOCK_<ID> in the README)
+async function resetStock() {
+  const response = await fetch(`${API_URL}/api/inventory/reset`, { method: 'POST' }).catch(() => undefined)
+  if (!response || !response.ok) console.warn(`Could not reset stock at ${API_URL}; sold-out products will be skipped`)
 }
 
 async function main() {
   console.log(
     `Simulating activity: ${TOTAL_USERS} users in batches of ${BATCH_SIZE} → ${BASE_URL} (headless=${HEADLESS})`
   )
+  await resetStock()
   let completed = 0
   let errors = 0
+  let soldOut = 0
+  const flows = []
 
-  while (completed + errors < TOTAL_USERS) {
-    const remaining = TOTAL_USERS - (completed + errors)
+  while (completed + errors + soldOut < TOTAL_USERS) {
+    const remaining = TOTAL_USERS - (completed + errors + soldOut)
     const batchCount = Math.min(BATCH_SIZE, remaining)
 
     const jobs = Array.from({ length: batchCount }).map(async () => {
       const browser = await chromium.launch({ headless: HEADLESS })
       const context = await browser.newContext()
       const page = await context.newPage()
+      const provider = PAYMENT_PROVIDERS[randomInt(0, PAYMENT_PROVIDERS.length - 1)]
+      const items = randomInt(1, 5)
+      const startedAt = Date.now()
       try {
-        const result = await runUserFlow(page)
+        const result = await runUserFlow(page, provider, items)
+        // Nothing left to buy says nothing about checkout latency or errors, so it isn't a flow
+        if (result.soldOut) {
+          soldOut += 1
+          return
+        }
+        const ok = result.status !== null && result.status < 400
+        flows.push({ provider, items: result.items, durationMs: result.duration, status: result.status, ok, startedAt })
         completed += 1
         if (completed % 25 === 0) {
           console.log(
-            `Progress: ${completed}/${TOTAL_USERS} (provider=${result.provider}, duration=${result.duration}ms, status=${result.status})`
+            `Progress: ${completed}/${TOTAL_USERS} (provider=${provider}, duration=${result.duration}ms, status=${result.status})`
           )
         }
       } catch (e) {
+        // Broke before checkout (page didn't load, button missing): an error with no checkout latency
+        flows.push({ provider, items, durationMs: null, status: null, ok: false, startedAt, error: e.message })
         errors += 1
       } finally {
         await page.close().catch(() => {})
@@ -111,12 +139,20 @@ async function main() {
 
     await Promise.all(jobs)
 
-    if (completed + errors < TOTAL_USERS && INTER_BATCH_DELAY_MS > 0) {
+    if (completed + errors + soldOut < TOTAL_USERS && INTER_BATCH_DELAY_MS > 0) {
       await new Promise((r) => setTimeout(r, INTER_BATCH_DELAY_MS))
     }
   }
 
-  console.log(`Done. Completed: ${completed}, Errors: ${errors}, Total: ${completed + errors}`)
+  console.log(
+    `Done. Completed: ${completed}, Errors: ${errors}, Sold out: ${soldOut}, Total: ${completed + errors + soldOut}`
+  )
+
+  const summary = summarize(flows)
+  const dir = writeReport(summary)
+  printChecks(summary)
+  console.log(`Report: ${dir}/report.html`)
+  if (!summary.passed) process.exitCode = 1
 }
 
 main().catch((err) => {
@@ -0,0 +1,157 @@
+/*
+  Local stand-in for Sentry ingestion, so instrumentation can be checked without a real project.
+  - Accepts the SDKs' envelope POSTs (`/api/<project>/envelope/`, gzip or plain), from the
+    browser too, and keeps transactions, spans, logs and errors in memory
+  - Point both apps at it with a DSN like `http://public@localhost:8999/1`
+  - Query API (JSON arrays, newest last; every filter is optional and exact):
+    * GET /captured/transactions?name=&trace_id=
+    * GET /captured/spans?op=&description=&trace_id=&parent_span_id=
+    * GET /captured/logs?level=&trace_id=
+    * GET /captured/errors?trace_id=
+    * DELETE /captured - forget everything
+    * GET /health
+
+  Usage: SINK_PORT=8999 node scripts/sentry-sink.js
+*/
+
+const http = require('node:http')
+const zlib = require('node:zlib')
+
+const PORT = Number(process.env.SINK_PORT || 8999)
+
+const captured = { transactions: [], spans: [], logs: [], errors: [] }
+
+// Splits an envelope into its header and [itemHeader, payload] pairs; payloads may hold newlines when `length` is set
+function parseEnvelope(buf) {
+  let offset = 0
+  const readLine = () => {
+    const end = buf.indexOf(0x0a, offset)
+    const line = buf.subarray(offset, end === -1 ? buf.length : end)
+    offset = end === -1 ? buf.length : end + 1
+    return line.toString('utf8')
+  }
+  const header = JSON.parse(readLine())
+  const items = []
+  while (offset < buf.length) {
+    const line = readLine()
+    if (!line.trim()) continue
+    const itemHeader = JSON.parse(line)
+    let payload
+    if (typeof itemHeader.length === 'number') {
+      payload = buf.subarray(offset, offset + itemHeader.length).toString('utf8')
+      offset += itemHeader.length + 1
+    } else {
+      payload = readLine()
+    }
+    items.push([itemHeader, payload])
+  }
+  return { header, items }
+}
+
+// A transaction's root span plus its children, flattened into one shape
+function spansOf(transaction) {
+  const trace = transaction.contexts?.trace ?? {}
+  const root = {
+    trace_id: trace.trace_id,
+    span_id: trace.span_id,
+    parent_span_id: trace.parent_span_id,
+    op: trace.op,
+    description: transaction.transaction,
+    status: trace.status,
+    data: trace.data ?? {},
+    start_timestamp: transaction.start_timestamp,
+    timestamp: transaction.timestamp,
+    transaction: transaction.transaction,
+    is_segment: true,
+  }
+  const children = (transaction.spans ?? []).map((span) => ({
+    ...span,
+    data: span.data ?? {},
+    transaction: transaction.transaction,
+    is_segment: false,
+  }))
+  return [root, ...children]
+}
+
+function store(type, payload) {
+  const body = JSON.parse(payload)
+  if (type === 'transaction') {
+    captured.transactions.push(body)
+    captured.spans.push(...spansOf(body))
+  } else if (type === 'span') {
+    captured.spans.push({ ...body, data: body.data ?? {}, is_segment: false })
+  } else if (type === 'log') {
+    captured.logs.push(...(body.items ?? []))
+  } else if (type === 'event') {
+    captured.errors.push(body)
+  }
+}
+
+function traceIdOf(type, entry) {
+  if (type === 'spans' || type === 'logs') return entry.trace_id
+  return entry.contexts?.trace?.trace_id
+}
+
+// Matches an entry against the query string; `name`/`description`/`op`/`level` compare to the obvious fields
+function matches(type, entry, query) {
+  for (const [key, value] of query) {
+    const actual =
+      key === 'trace_id'
+        ? traceIdOf(type, entry)
+        : key === 'name'
+          ? entry.transaction
+          : entry[key]
+    if (String(actual) !== value) return false
+  }
+  return true
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  })
+  res.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`)
+  if (req.method === 'OPTIONS') return send(res, 204)
+
+  if (req.method === 'POST' && /^\/api\/[^/]+\/envelope\/?$/.test(url.pathname)) {
+    const chunks = []
+    req.on('data', (chunk) => chunks.push(chunk))
+    req.on('end', () => {
+      try {
+        let buf = Buffer.concat(chunks)
+        if (req.headers['content-encoding'] === 'gzip') buf = zlib.gunzipSync(buf)
+        const { header, items } = parseEnvelope(buf)
+        for (const [itemHeader, payload] of items) store(itemHeader.type, payload)
+        send(res, 200, { id: header.event_id ?? null })
+      } catch (err) {
+        console.error('Unreadable envelope:', err.message)
+        send(res, 400, { error: 'unreadable envelope' })
+      }
+    })
+    return
+  }
+
+  if (req.method === 'DELETE' && url.pathname === '/captured') {
+    for (const list of Object.values(captured)) list.length = 0
+    return send(res, 204)
+  }
+
+  const kind = /^\/captured\/(transactions|spans|logs|errors)$/.exec(url.pathname)?.[1]
+  if (req.method === 'GET' && kind) {
+    return send(res, 200, captured[kind].filter((entry) => matches(kind, entry, url.searchParams)))
+  }
+
+  if (req.method === 'GET' && url.pathname === '/health') return send(res, 200, { ok: true })
+  send(res, 404, { error: 'not found' })
+})
+
+server.listen(PORT, () => {
+  console.log(`Sentry sink listening on http://localhost:${PORT} (DSN: http://public@localhost:${PORT}/1)`)
+})
@@ -0,0 +1,118 @@
+import { test, expect, type APIRequestContext, type Page } from '@playwright/test'
+import { PAYMENT_PROVIDERS, type Product } from '../../contract/src'
+
+// Ports match playwright.instrumentation.config.ts
+const SINK_URL = `http://localhost:${process.env.SINK_PORT || 8999}`
+const API_URL = 'http://localhost:5184'
+
+// A span as the sink stores it (scripts/sentry-sink.js); `data` holds the span's attributes
+type CapturedSpan = {
+  trace_id: string
+  span_id: string
+  parent_span_id?: string
+  op?: string
+  description?: string
+  data: Record<string, unknown>
+}
+
+// Waits for the SDKs to deliver a span matching `query`; transactions arrive only once their root span ends
+async function findSpan(request: APIRequestContext, query: Record<string, string>): Promise<CapturedSpan> {
+  let found: CapturedSpan | undefined
+  await expect
+    .poll(
+      async () => {
+        const response = await request.get(`${SINK_URL}/captured/spans`, { params: query })
+        found = ((await response.json()) as CapturedSpan[])[0]
+        return found
+      },
+      { timeout: 20_000, message: `no span matching ${JSON.stringify(query)}` }
+    )
+    .toBeDefined()
+  return found!
+}
+
+const ITEMS = ['npe', 'oom']
+
+// What ITEMS cost together in `currency`, from the backend's own prices
+async function cartValueIn(request: APIRequestContext, currency: string): Promise<number> {
+  const products = (await (await request.get(`${API_URL}/api/products?currency=${currency}`)).json()) as Product[]
+  return ITEMS.reduce((sum, id) => sum + (products.find((p) => p.id === id)?.priceMinor ?? 0), 0)
+}
+
+// Formats like the storefront's formatMoney, in the browser's locale
+function formatMoney(page: Page, minor: number, currency: string): Promise<string> {
+  return page.evaluate(
+    ([minor, currency]) => {
+      const formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency })
+      return formatter.format(minor / 10 ** (formatter.resolvedOptions().maximumFractionDigits ?? 2))
+    },
+    [minor, currency] as const
+  )
+}
+
+for (const provider of PAYMENT_PROVIDERS) {
+  test(`checkout via ${provider} is traced from click to charge`, async ({ page, request }) => {
+    await page.goto('/')
+    // Cart lines are saved one request at a time and every change is re-quoted; checkout must wait
+    // for the quote of the whole cart, or the UI span could record a partial one
+    const fullQuote = page.waitForResponse(async (r) => {
+      if (new URL(r.url()).pathname !== '/api/checkout/quote' || !r.ok()) return false
+      const quote = (await r.json()) as { currency: string; subtotalMinor: number }
+      return quote.subtotalMinor === (await cartValueIn(request, quote.currency))
+    })
+    for (const id of ITEMS) await page.click(`[data-testid="add-${id}"]`)
+    await expect(page.locator('#cart-button')).toContainText(String(ITEMS.length))
+    const quote = (await (await fullQuote).json()) as { currency: string; subtotalMinor: number }
+    await page.click('#cart-button')
+    await expect(page.getByTestId('quote-breakdown')).toContainText(
+      await formatMoney(page, quote.subtotalMinor, quote.currency)
+    )
+    await page.click(`[data-testid="payment-${provider}"]`)
+
+    const [response] = await Promise.all([
+      page.waitForResponse((r) => new URL(r.url()).pathname === '/api/checkout' && r.request().method() === 'POST'),
+      page.click('#checkout-button'),
+    ])
+    expect(response.status()).toBe(200)
+    const order = (await response.json()) as { orderId: string; currency: string }
+    const sentryTrace = (await response.request().allHeaders())['sentry-trace']
+    expect(sentryTrace, 'checkout request should carry sentry-trace').toBeTruthy()
+    const traceId = sentryTrace.split('-')[0]
+
+    const cartValue = await cartValueIn(request, order.currency)
+
+    const checkout = await findSpan(request, { trace_id: traceId, op: 'ui.action', description: 'Checkout' })
+    expect(checkout.data).toMatchObject({
+      'cart.item_count': ITEMS.length,
+      'cart.value_minor': cartValue,
+      'cart.currency': order.currency,
+      'order.id': order.orderId,
+      'payment.provider': provider,
+    })
+
+    const processing = await findSpan(request, {
+      trace_id: traceId,
+      op: 'commerce.order.server',
+      description: 'Order Processing',
+    })
+    expect(processing.data).toMatchObject({
+      'order.id': order.orderId,
+      'payment.provider': provider,
+      'payment.status': 'success',
+      'payment.attempts': 1,
+      'payment.failover': false,
+      'inventory.reserved': true,
+      'promo.applied': false,
+    })
+
+    const charge = await findSpan(request, { trace_id: traceId, op: 'commerce.payment', description: `Charge ${provider}` })
+    expect(charge.parent_span_id).toBe(processing.span_id)
+    expect(charge.data).toMatchObject({
+      'payment.provider': provider,
+      'payment.attempt': 1,
+      'payment.failover': false,
+      'payment.status': 'success',
+    })
+    expect(charge.data['payment.latency_ms']).toEqual(expect.any(Number))
+  })
+}
@@ -1,7 +1,5 @@
-import { test, expect } from '@playwright/test'
-
-const PRODUCT_IDS = ['npe', 'typeerror', 'segfault', 'syntax', 'oom'] as const
-const PROVIDERS = ['ZapPay', 'GlitchPay', 'LagPay'] as const
+import { test, expect, type Page } from '@playwright/test'
+import { type ErrorBody, PAYMENT_PROVIDERS as PROVIDERS, PRODUCT_IDS } from '../../contract/src'
 
 const TOTAL_RUNS = Number(process.env.TOTAL_USERS || 500)
 const MIN_ITEMS = 1
@@ -15,10 +13,19 @@ function pick<T>(arr: readonly T[]): T {
   return arr[randomInt(0, arr.length - 1)]
 }
 
-async function addRandomItems(page: any, count: number) {
+// Sold-out products have a disabled Add button
+async function inStockProducts(page: Page): Promise<string[]> {
+  const inStock: string[] = []
+  for (const id of PRODUCT_IDS) {
+    if (await page.locator(`[data-testid="add-${id}"]`).first().isEnabled()) inStock.push(id)
+  }
+  return inStock
+}
+
+async function addRandomItems(page: Page, inStock: string[], count: number) {
   const chosen = new Set<string>()
-  while (chosen.size < count) {
-    chosen.add(pick(PRODUCT_IDS))
+  while (chosen.size < Math.min(count, inStock.length)) {
+    chosen.add(pick(inStock))
   }
   // Ensure product section is visible
   await page.locator('text=Featured Errors').scrollIntoViewIfNeeded().catch(() => {})
@@ -31,44 +38,71 @@ async function addRandomItems(page: any, count: number) {
   return Array.from(chosen)
 }
 
-async function runFlow(page: any) {
+async function runFlow(page: Page, provider: (typeof PROVIDERS)[number], itemCount: number) {
   await page.goto('/')
   await page.waitForSelector('#cart-button', { timeout: 20000 })
   await page.waitForSelector('[data-testid="add-npe"]', { timeout: 20000 })
-  const itemCount = randomInt(MIN_ITEMS, MAX_ITEMS)
-  const items = await addRandomItems(page, itemCount)
+  const inStock = await inStockProducts(page)
+  if (inStock.length === 0) return { soldOut: true as const }
+  const items = await addRandomItems(page, inStock, itemCount)
 
   await page.click('#cart-button')
-  const provider = pick(PROVIDERS)
   await page.click(`[data-testid="payment-${provider}"]`)
 
   const start = Date.now()
-  let ok = false
+  let status: number | null = null
+  let code: string | undefined
   try {
     const [resp] = await Promise.all([
-      page.waitForResponse((r: any) => r.url().includes('/api/checkout') && r.request().method() === 'POST', { timeout: 20_000 }).catch(() => undefined),
+      page.waitForResponse((r) => new URL(r.url()).pathname === '/api/checkout' && r.request().method() === 'POST', { timeout: 20_000 }).catch(() => undefined),
       page.click('#checkout-button'),
     ])
-    ok = !!resp && resp.ok()
+    status = resp ? resp.status() : null
+    if (resp && resp.status() >= 400) {
+      code = ((await resp.json().catch(() => undefined)) as ErrorBody | undefined)?.error?.code
+    }
   } catch {
-    ok = false
+    status = null
   }
   const duration = Date.now() - start
-  return { ok, provider, items, duration }
+  // Sold out between page load and checkout: the shop did its job, the flow just had nothing to buy
+  if (code === 'OUT_OF_STOCK') return { soldOut: true as const }
+  return { soldOut: false as const, ok: status !== null && status < 400, status, items, duration }
+}
+
+// Picked up by load-report.reporter.ts, which turns the run into a report and checks the SLOs
+function recordFlow(flow: Record<string, unknown>) {
+  test.info().annotations.push({ type: 'checkout-flow', description: JSON.stringify(flow) })
 }
 
 test.describe.configure({ mode: 'parallel' })
 
 for (let i = 1; i <= TOTAL_RUNS; i++) {
   test(`Checkout flow ${i}/${TOTAL_RUNS}`, async ({ page }) => {
-    const result = await runFlow(page)
+    const provider = pick(PROVIDERS)
+    const itemCount = randomInt(MIN_ITEMS, MAX_ITEMS)
+    const startedAt = Date.now()
+    let result: Awaited<ReturnType<typeof runFlow>>
+    try {
+      result = await runFlow(page, provider, itemCount)
+    } catch (err) {
+      // Broke before checkout: an error with no checkout latency
+      recordFlow({ provider, items: itemCount, durationMs: null, status: null, ok: false, startedAt, error: String(err) })
+      throw err
+    }
+    // Nothing left to buy says nothing about checkout latency or errors, so it isn't counted
+    if (result.soldOut) {
+      test.skip(true, 'Everything in this flow was sold out')
+      return
+    }
+    recordFlow({ provider, items: result.items.length, durationMs: result.duration, status: result.status, ok: result.ok, startedAt })
     if (result.ok) {
-      console.log(`✅ ${i}: ${result.provider} | ${result.items.length} items | ${result.duration}ms`)
+      console.log(`✅ ${i}: ${provider} | ${result.items.length} items | ${result.duration}ms`)
     } else {
-      console.log(`⚠️ ${i}: ${result.provider} | ${result.items.length} items | failed (${result.duration}ms)`) 
+      console.log(`⚠️ ${i}: ${provider} | ${result.items.length} items | failed (${result.duration}ms)`)
     }
-    // We do not fail the test on purpose; failures are expected in this demo.
-    expect(true).toBeTruthy()
+    // A declined payment doesn't fail its test; the reporter fails the run when the error rate breaches the SLO
+    expect(result.status, 'checkout should get a response').not.toBeNull()
   })
 }
 
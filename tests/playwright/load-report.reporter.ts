@@ -0,0 +1,31 @@
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter'
+import { printChecks, summarize, writeReport } from '../../scripts/loadtest-report'
+
+/*
+  Collects the `checkout-flow` annotations of checkout.load.spec.ts, writes results.json and
+  report.html (scripts/loadtest-report.js) and fails the run when a checkout SLO is breached.
+  Runs without such annotations (e.g. other specs) are left alone. Only a test's last attempt
+  counts, so a flow that is retried isn't counted once per attempt.
+*/
+export default class LoadReportReporter implements Reporter {
+  // Keyed by test id; a retry replaces the attempt before it
+  private flows = new Map<string, unknown>()
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    this.flows.delete(test.id)
+    for (const annotation of result.annotations) {
+      if (annotation.type === 'checkout-flow' && annotation.description) {
+        this.flows.set(test.id, JSON.parse(annotation.description))
+      }
+    }
+  }
+
+  async onEnd(_result: FullResult): Promise<{ status: FullResult['status'] } | undefined> {
+    if (this.flows.size === 0) return
+    const summary = summarize([...this.flows.values()])
+    const dir = writeReport(summary)
+    printChecks(summary)
+    console.log(`Load test report: ${dir}/report.html`)
+    return summary.passed ? undefined : { status: 'failed' }
+  }
+}
@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test'
+import type { AddressInfo } from 'node:net'
+import type { CheckoutRequest, Quote } from '../../contract/src'
+import { createApp } from '../../backend/src/app'
+import { getSeedStock, SEED_PRODUCTS } from '../../backend/src/catalog'
+import { seededSimulation } from '../../backend/src/simulation'
+import { createMemoryStore } from '../../backend/src/store/memory'
+
+type Exchange = { request: string; status: number; body: unknown }
+
+// Boots a fresh app on the seed, sends the same shopping session and records every response
+async function runSession(seed: string): Promise<Exchange[]> {
+  const app = createApp({
+    store: createMemoryStore({ products: SEED_PRODUCTS, stock: getSeedStock() }),
+    simulation: seededSimulation(seed),
+    fulfillment: true,
+  })
+  const server = app.listen(0)
+  await new Promise((resolve) => server.once('listening', resolve))
+  const { port } = server.address() as AddressInfo
+  const exchanges: Exchange[] = []
+
+  async function send(method: string, path: string, body?: unknown) {
+    const res = await fetch(`http://localhost:${port}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    // Trace ids come from Sentry, not from the simulation
+    const json: unknown = JSON.parse(await res.text(), (key, value) => (key === 'checkoutTrace' ? undefined : value))
+    exchanges.push({ request: `${method} ${path}`, status: res.status, body: json })
+    return json
+  }
+
+  try {
+    const orderIds: string[] = []
+    for (const [index, product] of SEED_PRODUCTS.entries()) {
+      const cart = (await send('POST', '/api/carts')) as { id: string }
+      await send('POST', `/api/carts/${cart.id}/lines`, { productId: product.id, quantity: 1 + (index % 2) })
+      const quote = (await send('POST', '/api/checkout/quote', { cartId: cart.id })) as Quote
+      const checkout: CheckoutRequest = { cartId: cart.id, quoteId: quote.id }
+      const result = (await send('POST', '/api/checkout', checkout)) as { orderId?: string }
+      if (result.orderId) orderIds.push(result.orderId)
+    }
+    if (orderIds.length > 0) await send('POST', `/api/orders/${orderIds[0]}/refund`, {})
+    for (const id of orderIds) await send('GET', `/api/orders/${id}`)
+    await send('GET', '/api/orders')
+  } finally {
+    await new Promise((resolve) => server.close(resolve))
+  }
+  return exchanges
+}
+
+test('the same seed and requests give the same responses', async () => {
+  const first = await runSession('repro')
+  const second = await runSession('repro')
+
+  expect(first.some((e) => e.request === 'POST /api/checkout')).toBe(true)
+  expect(second).toEqual(first)
+})
+
+test('a different seed gives a different run', async () => {
+  const first = await runSession('repro')
+  const other = await runSession('another-seed')
+
+  expect(other).not.toEqual(first)
+})